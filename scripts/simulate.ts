@@ -0,0 +1,110 @@
+/**
+ * Headless balance simulator CLI
+ *
+ * Usage:
+ *   npm run simulate -- [--strategy=all|idle|click-heavy|auto-buy|greedy|goal] [--duration=7200]
+ *                       [--step=1] [--sample=60] [--format=json|csv] [--out=path]
+ *                       [--content=a.json,b.json] [--incidents=frequency] [--seed=n]
+ *                       [--determinism-check=600]
+ *
+ * JSON goes to stdout or --out. CSV writes <out>.milestones.csv and <out>.curve.csv
+ * (or both tables to stdout) so runs can be diffed between commits.
+ * --content replaces the built-in content pack with the listed JSON files, so
+ * rebalanced content can be compared against the defaults.
+ * --incidents turns on random incidents at the given frequency (1 = in-game rate);
+ * --seed picks their random sequence (default 1).
+ * Exits with status 1 if the goal planner did more work than PLANNER_CONFIG allows, or if
+ * replaying the first --determinism-check seconds (default 600, 0 = skip) of a strategy twice
+ * gives different results.
+ */
+
+import { readFileSync, writeFileSync } from 'node:fs';
+import { STRATEGIES } from '../src/game/simulation/strategies';
+import { curveToCsv, findNondeterminism, findPlannerOverruns, milestonesToCsv, runSimulation } from '../src/game/simulation/BalanceSimulator';
+import { ContentValidationError, parseContent } from '../src/game/content/contentSchema';
+import type { ContentPack } from '../src/game/content/contentSchema';
+
+function parseArgs(argv: string[]): Record<string, string> {
+  const args: Record<string, string> = {};
+  for (const arg of argv) {
+    const match = /^--([^=]+)=(.*)$/.exec(arg);
+    if (match) args[match[1]] = match[2];
+  }
+  return args;
+}
+
+function loadContent(paths: string): ContentPack {
+  try {
+    return parseContent(...paths.split(',').map(path => JSON.parse(readFileSync(path, 'utf8')) as unknown));
+  } catch (error) {
+    if (error instanceof ContentValidationError) {
+      console.error(`Invalid content:\n  ${error.issues.join('\n  ')}`);
+    } else {
+      console.error(`Failed to read content: ${(error as Error).message}`);
+    }
+    process.exit(1);
+  }
+}
+
+function main(): void {
+  const args = parseArgs(process.argv.slice(2));
+  const strategyName = args.strategy ?? 'all';
+  const strategies = strategyName === 'all' ? STRATEGIES : STRATEGIES.filter(s => s.name === strategyName);
+  if (strategies.length === 0) {
+    console.error(`Unknown strategy "${strategyName}". Available: all, ${STRATEGIES.map(s => s.name).join(', ')}`);
+    process.exit(1);
+  }
+
+  const options = {
+    durationSeconds: Number(args.duration ?? 7200),
+    stepSeconds: Number(args.step ?? 1),
+    sampleEverySeconds: Number(args.sample ?? 60),
+  };
+  if (!(options.durationSeconds > 0 && options.stepSeconds > 0 && options.sampleEverySeconds > 0)) {
+    console.error('--duration, --step and --sample must be positive numbers');
+    process.exit(1);
+  }
+
+  const incidents = { frequency: Number(args.incidents ?? 0), seed: Number(args.seed ?? 1) };
+  if (!(incidents.frequency >= 0) || !Number.isInteger(incidents.seed)) {
+    console.error('--incidents must be a non-negative number and --seed an integer');
+    process.exit(1);
+  }
+
+  const checkSeconds = Number(args['determinism-check'] ?? 600);
+  if (!(checkSeconds >= 0)) {
+    console.error('--determinism-check must be a non-negative number of seconds');
+    process.exit(1);
+  }
+
+  const content = args.content ? loadContent(args.content) : undefined;
+  const results = strategies.map(strategy => runSimulation(strategy, { ...options, content, incidents }));
+  const overruns = findPlannerOverruns(results);
+  if (overruns.length > 0) {
+    console.error(`Goal planner over budget:\n  ${overruns.join('\n  ')}`);
+    process.exitCode = 1;
+  }
+  if (checkSeconds > 0) {
+    const checkOptions = { ...options, durationSeconds: Math.min(checkSeconds, options.durationSeconds), content, incidents };
+    const mismatches = strategies.flatMap(strategy => findNondeterminism(strategy, checkOptions));
+    if (mismatches.length > 0) {
+      console.error(`Simulation is not deterministic:\n  ${mismatches.join('\n  ')}`);
+      process.exitCode = 1;
+    }
+  }
+
+  if (args.format === 'csv') {
+    if (args.out) {
+      writeFileSync(`${args.out}.milestones.csv`, milestonesToCsv(results));
+      writeFileSync(`${args.out}.curve.csv`, curveToCsv(results));
+    } else {
+      process.stdout.write(milestonesToCsv(results) + '\n' + curveToCsv(results));
+    }
+    return;
+  }
+
+  const json = JSON.stringify({ options, results }, null, 2) + '\n';
+  if (args.out) writeFileSync(args.out, json); else process.stdout.write(json);
+}
+
+main();
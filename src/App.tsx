@@ -13,8 +13,13 @@ import { ProducerList } from './components/ProducerList'
 import { GameControls } from './components/GameControls'
 import { TypingPanel } from './components/TypingPanel'
 import { Upgrades } from './components/Upgrades'
+import { Achievements } from './components/Achievements'
+import { Stats } from './components/Stats'
+import { Planner } from './components/Planner'
+import { Research } from './components/Research'
+import { IncidentBanner } from './components/Incidents'
 
-type TabType = 'producers' | 'upgrades';
+type TabType = 'producers' | 'upgrades' | 'research' | 'planner' | 'achievements' | 'stats';
 
 /**
  * Main game content component (needs to be inside GameProvider to use useGame)
@@ -31,6 +36,7 @@ function GameContent() {
       </header>
       <main className="app-main">
         <ResourceDisplay />
+        <IncidentBanner />
 
         {/* Click and Typing Section - Side by Side */}
         <div className={`interactive-section ${!typingUnlocked ? 'single-column' : ''}`}>
@@ -59,12 +65,40 @@ function GameContent() {
           >
             Upgrades
           </button>
+          <button
+            className={`tab-button ${activeTab === 'research' ? 'active' : ''}`}
+            onClick={() => setActiveTab('research')}
+          >
+            Research
+          </button>
+          <button
+            className={`tab-button ${activeTab === 'planner' ? 'active' : ''}`}
+            onClick={() => setActiveTab('planner')}
+          >
+            Planner
+          </button>
+          <button
+            className={`tab-button ${activeTab === 'achievements' ? 'active' : ''}`}
+            onClick={() => setActiveTab('achievements')}
+          >
+            Achievements
+          </button>
+          <button
+            className={`tab-button ${activeTab === 'stats' ? 'active' : ''}`}
+            onClick={() => setActiveTab('stats')}
+          >
+            Stats
+          </button>
         </div>
 
         {/* Tab Content */}
         <div className="tab-content">
           {activeTab === 'producers' && <ProducerList />}
           {activeTab === 'upgrades' && <Upgrades />}
+          {activeTab === 'research' && <Research />}
+          {activeTab === 'planner' && <Planner />}
+          {activeTab === 'achievements' && <Achievements />}
+          {activeTab === 'stats' && <Stats />}
         </div>
       </main>
     </div>
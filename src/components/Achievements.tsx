@@ -0,0 +1,38 @@
+/**
+ * Achievements component - shows locked, hidden and unlocked achievements
+ */
+
+import { useGame } from '../hooks/useGame';
+import './Achievements.scss';
+import { AchievementCard } from './Achievements/AchievementCard';
+
+/**
+ * Grid of all achievements with the total production bonus they grant
+ */
+export const Achievements: React.FC = () => {
+  const { achievements, achievementMultiplier } = useGame();
+
+  const unlockedCount = achievements.filter(a => a.unlocked).length;
+
+  return (
+    <div className="achievements-container">
+      <h2 className="achievements-title">Achievements</h2>
+      <div className="achievements-summary">
+        <span>Unlocked: {unlockedCount}/{achievements.length}</span>
+        <span>Production bonus: +{Math.round((achievementMultiplier - 1) * 100)}%</span>
+      </div>
+      <div className="achievements-grid">
+        {achievements.map(achievement => (
+          <AchievementCard
+            key={achievement.id}
+            name={achievement.name}
+            description={achievement.description}
+            bonus={achievement.bonus}
+            hidden={achievement.hidden}
+            unlocked={achievement.unlocked}
+          />
+        ))}
+      </div>
+    </div>
+  );
+};
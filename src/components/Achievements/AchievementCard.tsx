@@ -0,0 +1,25 @@
+import type { FC } from 'react';
+import '../Achievements.scss';
+
+interface AchievementCardProps {
+  name: string;
+  description: string;
+  bonus: number;
+  hidden: boolean;
+  unlocked: boolean;
+}
+
+export const AchievementCard: FC<AchievementCardProps> = ({ name, description, bonus, hidden, unlocked }) => {
+  const concealed = hidden && !unlocked;
+  const state = unlocked ? 'unlocked' : concealed ? 'hidden' : 'locked';
+  return (
+    <div className={`achievement-card ${state}`} aria-label={concealed ? 'Hidden achievement' : `${name}: ${unlocked ? 'unlocked' : 'locked'}`}>
+      <div className="achievement-header">
+        <h3 className="achievement-name">{unlocked ? '🏆' : '🔒'} {concealed ? '???' : name}</h3>
+        {unlocked && <span className="achievement-badge badge">Unlocked</span>}
+      </div>
+      <p className="achievement-description">{concealed ? 'Keep playing to discover this achievement.' : description}</p>
+      <span className="achievement-bonus">+{Math.round(bonus * 100)}% production</span>
+    </div>
+  );
+};
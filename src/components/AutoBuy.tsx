@@ -2,12 +2,14 @@
  * Auto-buy feature component
  */
 
+import { useState } from 'react';
 import { useGame } from '../hooks/useGame';
 import './AutoBuy.scss';
+import { AutoBuySettings } from './AutoBuy/AutoBuySettings';
 
 /**
- * Displays auto-buy toggle button and speed upgrades
- * Auto-buy purchases the best value affordable producer at regular intervals
+ * Displays auto-buy toggle button, speed level and the strategy/rules settings panel
+ * Auto-buy purchases the producer picked by the selected strategy at regular intervals
  */
 export const AutoBuy: React.FC = () => {
   const {
@@ -16,8 +18,13 @@ export const AutoBuy: React.FC = () => {
     autoBuySpeedLevel,
     autoBuyInterval,
     toggleAutoBuy,
-    upgrades
+    upgrades,
+    autoBuyStrategy,
+    autoBuyRules,
+    setAutoBuyStrategy,
+    setAutoBuyRule,
   } = useGame();
+  const [showSettings, setShowSettings] = useState(false);
 
   const autoBuyUpgrade = upgrades.find(u => u.id === 'autoBuy');
   const autoBuyUnlocked = autoBuyUpgrade?.purchased ?? false;
@@ -58,6 +65,22 @@ export const AutoBuy: React.FC = () => {
       <div className="auto-buy-info">
         <span className="info-text">Speed Level: {autoBuySpeedLevel}{maxLevel ? ' (MAX)' : ''} • Interval: {autoBuyInterval}s</span>
       </div>
+
+      <button
+        className="auto-buy-settings-toggle"
+        onClick={() => setShowSettings(!showSettings)}
+        aria-expanded={showSettings}
+      >
+        ⚙️ {showSettings ? 'Hide settings' : 'Settings'}
+      </button>
+      {showSettings && (
+        <AutoBuySettings
+          strategy={autoBuyStrategy}
+          rules={autoBuyRules}
+          onStrategyChange={setAutoBuyStrategy}
+          onRuleChange={setAutoBuyRule}
+        />
+      )}
     </div>
   );
 };
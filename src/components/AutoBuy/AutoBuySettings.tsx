@@ -0,0 +1,102 @@
+import { useState } from 'react';
+import type { FC } from 'react';
+import '../AutoBuy.scss';
+import { AUTO_BUY_STRATEGIES } from '../../game/autobuy/autoBuyStrategies';
+import type { AutoBuyStrategyId } from '../../game/autobuy/autoBuyStrategies';
+import type { GameContextType } from '../../context/GameContext';
+import { formatNumberAdaptive } from '../../utils/gameUtils';
+
+interface AutoBuySettingsProps {
+  strategy: AutoBuyStrategyId;
+  rules: GameContextType['autoBuyRules'];
+  onStrategyChange: (strategy: AutoBuyStrategyId) => void;
+  onRuleChange: GameContextType['setAutoBuyRule'];
+}
+
+interface LimitInputProps {
+  label: string;
+  value: string;
+  placeholder: string;
+  /** Apply the typed text (the engine ignores invalid values, so the field shows the old value again) */
+  onCommit: (text: string) => void;
+}
+
+/** Text field that edits a draft and applies it on blur or Enter, so the game loop does not overwrite typing */
+const LimitInput: FC<LimitInputProps> = ({ label, value, placeholder, onCommit }) => {
+  const [draft, setDraft] = useState<string | null>(null);
+  const commit = () => {
+    if (draft !== null && draft !== value) onCommit(draft.trim());
+    setDraft(null);
+  };
+  return (
+    <input
+      className="auto-buy-limit-input"
+      type="text"
+      inputMode="numeric"
+      aria-label={label}
+      placeholder={placeholder}
+      value={draft ?? value}
+      onChange={e => setDraft(e.target.value)}
+      onBlur={commit}
+      onKeyDown={e => { if (e.key === 'Enter') e.currentTarget.blur(); }}
+    />
+  );
+};
+
+/** Strategy picker plus per-producer enable, max owned and reserve controls */
+export const AutoBuySettings: FC<AutoBuySettingsProps> = ({ strategy, rules, onStrategyChange, onRuleChange }) => {
+  const selected = AUTO_BUY_STRATEGIES.find(s => s.id === strategy);
+  return (
+    <div className="auto-buy-settings">
+      <label className="auto-buy-strategy">
+        <span>Strategy</span>
+        <select value={strategy} onChange={e => onStrategyChange(e.target.value as AutoBuyStrategyId)}>
+          {AUTO_BUY_STRATEGIES.map(s => <option key={s.id} value={s.id}>{s.name}</option>)}
+        </select>
+      </label>
+      {selected && <p className="auto-buy-strategy-description">{selected.description}</p>}
+
+      <table className="auto-buy-rules">
+        <thead>
+          <tr>
+            <th>Producer</th>
+            <th>Buy</th>
+            <th>Max owned</th>
+            <th>Keep in reserve</th>
+          </tr>
+        </thead>
+        <tbody>
+          {rules.filter(r => r.unlocked).map(rule => (
+            <tr key={rule.producerId} className={rule.enabled ? '' : 'rule-disabled'}>
+              <td>{rule.name} <small>({rule.quantity})</small></td>
+              <td>
+                <input
+                  type="checkbox"
+                  checked={rule.enabled}
+                  aria-label={`Auto-buy ${rule.name}`}
+                  onChange={e => onRuleChange(rule.producerId, { enabled: e.target.checked })}
+                />
+              </td>
+              <td>
+                <LimitInput
+                  label={`Maximum ${rule.name} owned`}
+                  value={rule.maxOwned === null ? '' : String(rule.maxOwned)}
+                  placeholder="No limit"
+                  onCommit={text => onRuleChange(rule.producerId, { maxOwned: text === '' ? null : Number(text) })}
+                />
+              </td>
+              <td>
+                <LimitInput
+                  label={`Resources to keep when buying ${rule.name}`}
+                  value={rule.reserve.isZero() ? '' : formatNumberAdaptive(rule.reserve, 0, 2)}
+                  placeholder="0"
+                  onCommit={text => onRuleChange(rule.producerId, { reserve: text === '' ? 0 : text })}
+                />
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+};
@@ -4,6 +4,8 @@
 
 import { useGame } from '../hooks/useGame';
 import './ClickButton.scss';
+import { formatNumberAdaptive } from '../utils/gameUtils';
+import { MergedPrPopup } from './Incidents/MergedPrPopup';
 
 /**
  * Circular button that awards +1 resource per click
@@ -19,8 +21,9 @@ export const ClickButton: React.FC = () => {
         aria-label="Write code (click) to produce resources"
       >
         <span className="button-text">Write Code {cheatActive && '⚡'}</span>
-        <span className="button-subtext">+{clickValue} per click {cheatActive ? '| CHEAT x10 active!' : '| Try typing for combos'}</span>
+        <span className="button-subtext">+{formatNumberAdaptive(clickValue, 0, 2)} per click {cheatActive ? '| CHEAT x10 active!' : '| Try typing for combos'}</span>
       </button>
+      <MergedPrPopup />
     </div>
   );
 };
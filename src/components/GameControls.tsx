@@ -5,14 +5,25 @@
 import { useState } from 'react';
 import { useGame } from '../hooks/useGame';
 import './GameControls.scss';
+import { ShipConfirmDialog } from './GameControls/ShipConfirmDialog';
+import { SaveRecoveryDialog } from './GameControls/SaveRecoveryDialog';
+import { ExportSaveDialog } from './GameControls/ExportSaveDialog';
+import { ImportSaveDialog } from './GameControls/ImportSaveDialog';
+import { SaveSlotsDialog } from './GameControls/SaveSlotsDialog';
+import { OfflineReportDialog } from './GameControls/OfflineReportDialog';
+
+type DialogType = 'ship' | 'export' | 'import' | 'slots';
 
 /**
  * Dropdown menu providing game controls like reset
  * Features click-outside-to-close functionality
  */
 export const GameControls = () => {
-  const { resetGame } = useGame();
+  const { resetGame, shipToProduction, canShipToProduction, pendingReleasePoints, releasePoints, runEarnings, saveRecovery, repairSave, discardBrokenSave, exportSave, previewImport, importSave,
+    saveSlots, activeSlotId, createSlot, renameSlot, duplicateSlot, deleteSlot, switchSlot, offlineReport, dismissOfflineReport } = useGame();
   const [isOpen, setIsOpen] = useState(false);
+  const [activeDialog, setActiveDialog] = useState<DialogType | null>(null);
+  const [exportCode, setExportCode] = useState('');
 
   /**
    * Handle reset with confirmation
@@ -23,6 +34,23 @@ export const GameControls = () => {
     resetGame();
   };
 
+  /**
+   * Open one of the menu dialogs
+   * Closes dropdown so the dialog has focus
+   */
+  const openDialog = (dialog: DialogType) => {
+    setIsOpen(false);
+    if (dialog === 'export') setExportCode(exportSave());
+    setActiveDialog(dialog);
+  };
+
+  const closeDialog = () => setActiveDialog(null);
+
+  const handleShipConfirm = () => {
+    closeDialog();
+    shipToProduction();
+  };
+
   /**
    * Toggle dropdown open/closed
    */
@@ -48,6 +76,36 @@ export const GameControls = () => {
             aria-hidden="true"
           />
           <div className="dropdown-menu" role="menu">
+            <button
+              className="dropdown-item ship-item"
+              onClick={() => openDialog('ship')}
+              disabled={!canShipToProduction}
+              role="menuitem"
+              title={canShipToProduction ? undefined : 'Earn more this run to ship'}
+            >
+              🚀 Ship to Production (+{pendingReleasePoints} RP)
+            </button>
+            <button
+              className="dropdown-item"
+              onClick={() => openDialog('slots')}
+              role="menuitem"
+            >
+              💾 Save Slots
+            </button>
+            <button
+              className="dropdown-item"
+              onClick={() => openDialog('export')}
+              role="menuitem"
+            >
+              📤 Export Save
+            </button>
+            <button
+              className="dropdown-item"
+              onClick={() => openDialog('import')}
+              role="menuitem"
+            >
+              📥 Import Save
+            </button>
             <button
               className="dropdown-item reset-item"
               onClick={handleReset}
@@ -58,6 +116,39 @@ export const GameControls = () => {
           </div>
         </>
       )}
+      {activeDialog === 'ship' && (
+        <ShipConfirmDialog
+          pendingReleasePoints={pendingReleasePoints}
+          releasePoints={releasePoints}
+          runEarnings={runEarnings}
+          onConfirm={handleShipConfirm}
+          onCancel={closeDialog}
+        />
+      )}
+      {activeDialog === 'export' && (
+        <ExportSaveDialog code={exportCode} onClose={closeDialog} />
+      )}
+      {activeDialog === 'slots' && (
+        <SaveSlotsDialog
+          slots={saveSlots}
+          activeSlotId={activeSlotId}
+          onCreate={createSlot}
+          onRename={renameSlot}
+          onDuplicate={duplicateSlot}
+          onDelete={deleteSlot}
+          onSwitch={switchSlot}
+          onClose={closeDialog}
+        />
+      )}
+      {activeDialog === 'import' && (
+        <ImportSaveDialog onPreview={previewImport} onImport={importSave} onClose={closeDialog} />
+      )}
+      {offlineReport && !saveRecovery && (
+        <OfflineReportDialog report={offlineReport} onClose={dismissOfflineReport} />
+      )}
+      {saveRecovery && (
+        <SaveRecoveryDialog recovery={saveRecovery} onRepair={repairSave} onDiscard={discardBrokenSave} />
+      )}
     </div>
   );
 };
@@ -0,0 +1,50 @@
+import type { FC } from 'react';
+import { useState } from 'react';
+import '../GameControls.scss';
+
+interface ExportSaveDialogProps {
+  code: string;
+  onClose: () => void;
+}
+
+/**
+ * Shows the exported save string with copy and download actions
+ */
+export const ExportSaveDialog: FC<ExportSaveDialogProps> = ({ code, onClose }) => {
+  const [copied, setCopied] = useState(false);
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(code);
+      setCopied(true);
+    } catch {
+      setCopied(false);
+    }
+  };
+
+  const handleDownload = () => {
+    const blob = new Blob([code], { type: 'text/plain' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `idle-webz-save-${new Date().toISOString().slice(0, 10)}.txt`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <>
+      <div className="dialog-overlay" onClick={onClose} aria-hidden="true" />
+      <div className="confirm-dialog" role="dialog" aria-modal="true" aria-labelledby="export-dialog-title">
+        <h3 id="export-dialog-title">📤 Export Save</h3>
+        <p>Copy this string or download it, then use Import Save on another device.</p>
+        <textarea className="dialog-textarea" readOnly value={code} onFocus={e => e.currentTarget.select()} aria-label="Exported save string" />
+        <div className="dialog-actions">
+          <button className="dialog-button cancel" onClick={onClose}>Close</button>
+          <button className="dialog-button" onClick={handleDownload}>Download</button>
+          <button className="dialog-button confirm" onClick={handleCopy}>{copied ? 'Copied!' : 'Copy'}</button>
+        </div>
+      </div>
+    </>
+  );
+};
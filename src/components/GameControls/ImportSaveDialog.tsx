@@ -0,0 +1,76 @@
+import type { FC } from 'react';
+import { useState } from 'react';
+import '../GameControls.scss';
+import type { SaveImportResult } from '../../context/GameContext';
+import { formatNumberAdaptive } from '../../utils/gameUtils';
+import type { BigNumSource } from '../../utils/BigNum';
+
+interface ImportSaveDialogProps {
+  onPreview: (code: string) => SaveImportResult;
+  onImport: (code: string) => boolean;
+  onClose: () => void;
+}
+
+/**
+ * Two-step import: paste or load a save string, review the preview, then overwrite
+ */
+export const ImportSaveDialog: FC<ImportSaveDialogProps> = ({ onPreview, onImport, onClose }) => {
+  const [code, setCode] = useState('');
+  const [result, setResult] = useState<SaveImportResult | null>(null);
+  const formatNumber = (n: BigNumSource) => formatNumberAdaptive(n, 0, 2);
+
+  const handleCodeChange = (value: string) => {
+    setCode(value);
+    setResult(null);
+  };
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    handleCodeChange((await file.text()).trim());
+  };
+
+  const handleConfirm = () => {
+    if (onImport(code)) onClose();
+  };
+
+  return (
+    <>
+      <div className="dialog-overlay" onClick={onClose} aria-hidden="true" />
+      <div className="confirm-dialog" role="dialog" aria-modal="true" aria-labelledby="import-dialog-title">
+        <h3 id="import-dialog-title">📥 Import Save</h3>
+        <label className="dialog-label" htmlFor="import-code">Paste a save string or choose a file:</label>
+        <textarea id="import-code" className="dialog-textarea" value={code} onChange={e => handleCodeChange(e.currentTarget.value)} />
+        <input type="file" accept=".txt,text/plain" onChange={e => handleFile(e.currentTarget.files?.[0])} aria-label="Load save file" />
+
+        {result && !result.ok && (
+          <ul className="dialog-details dialog-error" role="alert">
+            {result.issues.slice(0, 6).map(issue => <li key={issue}>{issue}</li>)}
+          </ul>
+        )}
+        {result && result.ok && (
+          <ul className="dialog-details">
+            <li>Resources: {formatNumber(result.preview.resources)} ({formatNumber(result.preview.productionRate)}/sec)</li>
+            {result.preview.releasePoints > 0 && <li>Release Points: {result.preview.releasePoints}</li>}
+            <li>Producers: {result.preview.producers.length > 0
+              ? result.preview.producers.map(p => `${p.name} x${p.quantity}`).join(', ')
+              : 'none'}</li>
+            <li>Upgrades: {result.preview.upgrades.length > 0 ? result.preview.upgrades.join(', ') : 'none'}</li>
+            <li>Saved: {new Date(result.preview.lastUpdate).toLocaleString()}</li>
+            <li><strong>Your current progress will be overwritten.</strong></li>
+          </ul>
+        )}
+
+        <div className="dialog-actions">
+          <button className="dialog-button cancel" onClick={onClose}>Cancel</button>
+          {result && result.ok ? (
+            <button className="dialog-button confirm" onClick={handleConfirm}>Overwrite and load</button>
+          ) : (
+            <button className="dialog-button confirm" onClick={() => setResult(onPreview(code))} disabled={code.trim() === ''}>
+              Preview
+            </button>
+          )}
+        </div>
+      </div>
+    </>
+  );
+};
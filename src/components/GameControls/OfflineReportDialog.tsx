@@ -0,0 +1,39 @@
+import type { FC } from 'react';
+import '../GameControls.scss';
+import type { OfflineReport } from '../../game/GameEngine';
+import { formatNumberAdaptive, formatTime } from '../../utils/gameUtils';
+
+interface OfflineReportDialogProps {
+  report: OfflineReport;
+  onClose: () => void;
+}
+
+/**
+ * "While you were away" summary shown after offline progress is credited
+ */
+export const OfflineReportDialog: FC<OfflineReportDialogProps> = ({ report, onClose }) => {
+  const bought = Object.entries(report.producersBought);
+  const capped = report.secondsCredited < report.secondsAway;
+  return (
+    <>
+      <div className="dialog-overlay" onClick={onClose} aria-hidden="true" />
+      <div className="confirm-dialog" role="dialog" aria-modal="true" aria-labelledby="offline-dialog-title">
+        <h3 id="offline-dialog-title">☕ While you were away…</h3>
+        <ul className="dialog-details">
+          <li>
+            Time away: {formatTime(report.secondsAway)}
+            {capped && ` (capped at ${formatTime(report.secondsCredited)})`}
+          </li>
+          <li>Offline efficiency: {Math.round(report.efficiency * 100)}%</li>
+          <li>Resources earned: <strong>{formatNumberAdaptive(report.resourcesEarned, 0, 2)}</strong></li>
+          {bought.length > 0 && (
+            <li>Auto-bought: {bought.map(([name, count]) => `${name} x${count}`).join(', ')}</li>
+          )}
+        </ul>
+        <div className="dialog-actions">
+          <button className="dialog-button confirm" onClick={onClose}>Back to work</button>
+        </div>
+      </div>
+    </>
+  );
+};
@@ -0,0 +1,37 @@
+import type { FC } from 'react';
+import '../GameControls.scss';
+import type { SaveRecoveryInfo } from '../../context/GameContext';
+
+interface SaveRecoveryDialogProps {
+  recovery: SaveRecoveryInfo;
+  onRepair: () => void;
+  onDiscard: () => void;
+}
+
+/**
+ * Shown when the stored save fails validation
+ * Lets the player copy the raw save, load a repaired copy, or start fresh
+ */
+export const SaveRecoveryDialog: FC<SaveRecoveryDialogProps> = ({ recovery, onRepair, onDiscard }) => {
+  return (
+    <>
+      <div className="dialog-overlay" aria-hidden="true" />
+      <div className="confirm-dialog" role="alertdialog" aria-modal="true" aria-labelledby="recovery-dialog-title">
+        <h3 id="recovery-dialog-title">⚠️ Your save could not be loaded</h3>
+        <p>Auto-save is paused and a backup copy has been kept. Problems found:</p>
+        <ul className="dialog-details">
+          {recovery.issues.slice(0, 6).map(issue => <li key={issue}>{issue}</li>)}
+          {recovery.issues.length > 6 && <li>…and {recovery.issues.length - 6} more</li>}
+        </ul>
+        <label className="dialog-label" htmlFor="recovery-raw">Raw save (copy it somewhere safe):</label>
+        <textarea id="recovery-raw" className="dialog-textarea" readOnly value={recovery.raw} onFocus={e => e.currentTarget.select()} />
+        <div className="dialog-actions">
+          <button className="dialog-button cancel" onClick={onDiscard}>Start new game</button>
+          <button className="dialog-button confirm" onClick={onRepair} disabled={!recovery.repairable}>
+            Repair and load
+          </button>
+        </div>
+      </div>
+    </>
+  );
+};
@@ -0,0 +1,104 @@
+import type { FC } from 'react';
+import { useState } from 'react';
+import '../GameControls.scss';
+import type { SaveSlot } from '../../game/save/SaveSlotStore';
+import { formatNumberAdaptive } from '../../utils/gameUtils';
+
+interface SaveSlotsDialogProps {
+  slots: SaveSlot[];
+  activeSlotId: string;
+  onCreate: (name: string) => string;
+  onRename: (slotId: string, name: string) => boolean;
+  onDuplicate: (slotId: string) => boolean;
+  onDelete: (slotId: string) => boolean;
+  onSwitch: (slotId: string) => void;
+  onClose: () => void;
+}
+
+/**
+ * Lists named save slots with metadata and slot management actions
+ */
+export const SaveSlotsDialog: FC<SaveSlotsDialogProps> = ({ slots, activeSlotId, onCreate, onRename, onDuplicate, onDelete, onSwitch, onClose }) => {
+  const [newName, setNewName] = useState('');
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editName, setEditName] = useState('');
+
+  const handleCreate = () => {
+    onCreate(newName);
+    setNewName('');
+  };
+
+  const startRename = (slot: SaveSlot) => {
+    setEditingId(slot.id);
+    setEditName(slot.name);
+  };
+
+  const commitRename = () => {
+    if (editingId) onRename(editingId, editName);
+    setEditingId(null);
+  };
+
+  const handleDelete = (slot: SaveSlot) => {
+    if (window.confirm(`Delete save slot "${slot.name}"? This cannot be undone!`)) onDelete(slot.id);
+  };
+
+  return (
+    <>
+      <div className="dialog-overlay" onClick={onClose} aria-hidden="true" />
+      <div className="confirm-dialog slots-dialog" role="dialog" aria-modal="true" aria-labelledby="slots-dialog-title">
+        <h3 id="slots-dialog-title">💾 Save Slots</h3>
+        <ul className="slot-list">
+          {slots.map(slot => {
+            const active = slot.id === activeSlotId;
+            return (
+              <li key={slot.id} className={`slot-item ${active ? 'active' : ''}`}>
+                <div className="slot-info">
+                  {editingId === slot.id ? (
+                    <input
+                      className="slot-name-input"
+                      value={editName}
+                      onChange={e => setEditName(e.currentTarget.value)}
+                      onKeyDown={e => { if (e.key === 'Enter') commitRename(); if (e.key === 'Escape') setEditingId(null); }}
+                      onBlur={commitRename}
+                      aria-label="Slot name"
+                      autoFocus
+                    />
+                  ) : (
+                    <strong className="slot-name">{slot.name}{active ? ' (playing)' : ''}</strong>
+                  )}
+                  <span className="slot-meta">
+                    {slot.meta
+                      ? `${formatNumberAdaptive(slot.meta.resources, 0, 2)} resources • ${slot.meta.highestProducer ?? 'No producers'} • ${new Date(slot.meta.lastPlayed).toLocaleString()}`
+                      : 'Empty'}
+                  </span>
+                </div>
+                <div className="slot-actions">
+                  {!active && <button className="dialog-button confirm" onClick={() => onSwitch(slot.id)}>Play</button>}
+                  <button className="dialog-button" onClick={() => startRename(slot)} aria-label={`Rename ${slot.name}`}>Rename</button>
+                  <button className="dialog-button" onClick={() => onDuplicate(slot.id)} aria-label={`Duplicate ${slot.name}`}>Duplicate</button>
+                  {!active && slots.length > 1 && (
+                    <button className="dialog-button danger" onClick={() => handleDelete(slot)} aria-label={`Delete ${slot.name}`}>Delete</button>
+                  )}
+                </div>
+              </li>
+            );
+          })}
+        </ul>
+        <div className="slot-create">
+          <input
+            className="slot-name-input"
+            value={newName}
+            onChange={e => setNewName(e.currentTarget.value)}
+            onKeyDown={e => { if (e.key === 'Enter') handleCreate(); }}
+            placeholder="New slot name"
+            aria-label="New slot name"
+          />
+          <button className="dialog-button" onClick={handleCreate}>Create</button>
+        </div>
+        <div className="dialog-actions">
+          <button className="dialog-button cancel" onClick={onClose}>Close</button>
+        </div>
+      </div>
+    </>
+  );
+};
@@ -0,0 +1,42 @@
+import type { FC } from 'react';
+import '../GameControls.scss';
+import { formatNumberAdaptive } from '../../utils/gameUtils';
+import { PRESTIGE_CONFIG } from '../../constants/gameConstants';
+import type { BigNum } from '../../utils/BigNum';
+
+interface ShipConfirmDialogProps {
+  pendingReleasePoints: number;
+  releasePoints: number;
+  runEarnings: BigNum;
+  onConfirm: () => void;
+  onCancel: () => void;
+}
+
+/**
+ * Confirmation dialog for the Ship to Production prestige reset
+ * Shows what is gained and what is lost before the run restarts
+ */
+export const ShipConfirmDialog: FC<ShipConfirmDialogProps> = ({ pendingReleasePoints, releasePoints, runEarnings, onConfirm, onCancel }) => {
+  const nextMultiplier = 1 + (releasePoints + pendingReleasePoints) * PRESTIGE_CONFIG.multiplierPerPoint;
+  return (
+    <>
+      <div className="dialog-overlay" onClick={onCancel} aria-hidden="true" />
+      <div className="confirm-dialog" role="dialog" aria-modal="true" aria-labelledby="ship-dialog-title">
+        <h3 id="ship-dialog-title">🚀 Ship to Production?</h3>
+        <p>
+          This run earned {formatNumberAdaptive(runEarnings, 0, 2)} resources,
+          worth <strong>+{pendingReleasePoints} Release Points</strong>.
+        </p>
+        <ul className="dialog-details">
+          <li>Release Points: {releasePoints} → {releasePoints + pendingReleasePoints}</li>
+          <li>Production multiplier: x{nextMultiplier.toFixed(2)}</li>
+          <li>Resources, producers and upgrades will be reset.</li>
+        </ul>
+        <div className="dialog-actions">
+          <button className="dialog-button cancel" onClick={onCancel}>Keep coding</button>
+          <button className="dialog-button confirm" onClick={onConfirm}>Ship it</button>
+        </div>
+      </div>
+    </>
+  );
+};
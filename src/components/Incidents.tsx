@@ -0,0 +1,53 @@
+/**
+ * Banner listing active timed incidents (Hackathon, Prod Outage) with their countdowns
+ */
+
+import { useGame } from '../hooks/useGame';
+import './Incidents.scss';
+import { formatTime } from '../utils/gameUtils';
+
+/**
+ * Shows each running effect with a draining timer bar.
+ * Outages also show the fix command, highlighting the part already typed.
+ * Merged PRs are shown next to the click button instead (see MergedPrPopup).
+ */
+export const IncidentBanner: React.FC = () => {
+  const { incidents } = useGame();
+  const timed = incidents.filter(i => i.kind !== 'mergedPr');
+  if (timed.length === 0) return null;
+
+  return (
+    <div className="incident-banner" aria-live="polite">
+      {timed.map(incident => (
+        <div key={incident.id} className={`incident incident-${incident.kind}`}>
+          <div className="incident-header">
+            <span className="incident-name">
+              {incident.kind === 'hackathon' ? '🍕' : '🔥'} {incident.name}
+            </span>
+            <span className="incident-effect">
+              {incident.kind === 'hackathon'
+                ? `All production x${incident.factor}`
+                : `${incident.producerName} output x${incident.factor}`}
+            </span>
+            <span className="incident-timer">{formatTime(incident.secondsRemaining)}</span>
+          </div>
+          {incident.fixCommand && (
+            <div className="incident-fix">
+              Type to fix:{' '}
+              <code>
+                <span className="typed">{incident.fixCommand.slice(0, incident.fixProgress)}</span>
+                {incident.fixCommand.slice(incident.fixProgress)}
+              </code>
+            </div>
+          )}
+          <div className="incident-timer-bar">
+            <div
+              className="incident-timer-fill"
+              style={{ width: `${(incident.secondsRemaining / incident.durationSeconds) * 100}%` }}
+            />
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+};
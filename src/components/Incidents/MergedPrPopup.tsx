@@ -0,0 +1,24 @@
+import type { FC } from 'react';
+import { useGame } from '../../hooks/useGame';
+import '../Incidents.scss';
+import { formatNumberAdaptive } from '../../utils/gameUtils';
+
+/** Clickable Merged PR bonus shown beside the click button until it is collected or expires */
+export const MergedPrPopup: FC = () => {
+  const { incidents, claimIncident } = useGame();
+  const mergedPr = incidents.find(i => i.kind === 'mergedPr');
+  if (!mergedPr) return null;
+
+  return (
+    <button
+      className="merged-pr-popup"
+      onClick={() => claimIncident(mergedPr.id)}
+      title={mergedPr.description}
+      aria-label={`Collect ${mergedPr.name} bonus`}
+    >
+      <span className="merged-pr-title">✅ {mergedPr.name}</span>
+      <span className="merged-pr-reward">+{formatNumberAdaptive(mergedPr.reward ?? 0, 0, 2)}</span>
+      <span className="merged-pr-timer">{mergedPr.secondsRemaining}s</span>
+    </button>
+  );
+};
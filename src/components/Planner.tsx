@@ -0,0 +1,135 @@
+/**
+ * Planner component - fastest producer purchase path to a goal
+ */
+
+import { useEffect, useState } from 'react';
+import { useGame } from '../hooks/useGame';
+import type { PlannerGoal } from '../game/planner/GoalPlanner';
+import { BigNum } from '../utils/BigNum';
+import { formatNumberAdaptive, formatTime } from '../utils/gameUtils';
+import './Planner.scss';
+
+type GoalType = PlannerGoal['type'];
+
+const GOAL_TYPES: Array<{ type: GoalType; label: string }> = [
+  { type: 'resources', label: 'Resources' },
+  { type: 'unlock', label: 'Unlock' },
+  { type: 'upgrade', label: 'Upgrade' },
+];
+
+const formatEta = (seconds: number): string =>
+  !Number.isFinite(seconds) ? 'never (production only)' : seconds < 1 ? 'now' : formatTime(Math.ceil(seconds));
+
+/**
+ * Pick a target, see the purchase plan with its ETA, and optionally let auto-buy follow it
+ */
+export const Planner: React.FC = () => {
+  const { goal, setGoal, setGoalFollow, producers, upgrades, producerUpgrades, autoBuyEnabled, onGameEvent } = useGame();
+  const [goalType, setGoalType] = useState<GoalType>('resources');
+  const [amount, setAmount] = useState('1e6');
+  const [producerId, setProducerId] = useState('');
+  const [upgradeId, setUpgradeId] = useState('');
+  const [message, setMessage] = useState<string | null>(null);
+
+  useEffect(() => onGameEvent('goalReached', () => setMessage('🎉 Goal reached!')), [onGameEvent]);
+
+  const lockedProducers = producers.filter(p => p.id !== 'codingSession' && !p.unlocked && p.unlockThreshold);
+  const openUpgrades = [...upgrades, ...producerUpgrades].filter(u => !u.purchased);
+  const autoBuyUnlocked = upgrades.find(u => u.id === 'autoBuy')?.purchased ?? false;
+
+  const buildGoal = (): PlannerGoal | null => {
+    if (goalType === 'resources') {
+      const target = BigNum.tryFrom(amount.trim());
+      return target ? { type: 'resources', amount: target } : null;
+    }
+    if (goalType === 'unlock') {
+      const id = producerId || lockedProducers[0]?.id;
+      return id ? { type: 'unlock', producerId: id } : null;
+    }
+    const id = upgradeId || openUpgrades[0]?.id;
+    return id ? { type: 'upgrade', upgradeId: id } : null;
+  };
+
+  const handlePlan = () => {
+    const next = buildGoal();
+    setMessage(next && setGoal(next) ? null : 'That goal is invalid or already reached.');
+  };
+
+  const goalLabel = !goal ? '' : goal.goal.type === 'resources'
+    ? `${formatNumberAdaptive(goal.goal.amount, 0, 2)} resources`
+    : goal.goal.type === 'unlock' ? `Unlock ${goal.targetName}` : `Afford ${goal.targetName}`;
+
+  return (
+    <div className="planner-container">
+      <h2 className="planner-title">Goal Planner</h2>
+      <div className="planner-form">
+        <div className="planner-toggle" role="group" aria-label="Goal type">
+          {GOAL_TYPES.map(({ type, label }) => (
+            <button
+              key={type}
+              className={`planner-option ${goalType === type ? 'active' : ''}`}
+              aria-pressed={goalType === type}
+              onClick={() => setGoalType(type)}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+        {goalType === 'resources' && (
+          <input
+            className="planner-input"
+            value={amount}
+            onChange={e => setAmount(e.target.value)}
+            aria-label="Target resources"
+            placeholder="e.g. 1000000 or 1e6"
+          />
+        )}
+        {goalType === 'unlock' && (
+          <select className="planner-input" value={producerId} onChange={e => setProducerId(e.target.value)} aria-label="Producer to unlock">
+            {lockedProducers.length === 0 && <option value="">Everything is unlocked</option>}
+            {lockedProducers.map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+          </select>
+        )}
+        {goalType === 'upgrade' && (
+          <select className="planner-input" value={upgradeId} onChange={e => setUpgradeId(e.target.value)} aria-label="Upgrade to afford">
+            {openUpgrades.length === 0 && <option value="">Every upgrade is owned</option>}
+            {openUpgrades.map(u => <option key={u.id} value={u.id}>{u.name}</option>)}
+          </select>
+        )}
+        <button className="planner-button" onClick={handlePlan}>Plan</button>
+      </div>
+      {message && <p className="planner-message">{message}</p>}
+
+      {goal && (
+        <div className="planner-plan">
+          <div className="planner-summary">
+            <span className="planner-goal">{goalLabel}</span>
+            <span>ETA: <strong>{formatEta(goal.etaSeconds)}</strong></span>
+            <span className="planner-muted">Without buying: {formatEta(goal.waitOnlySeconds)}</span>
+            <button className="planner-clear" onClick={() => setGoal(null)}>Clear</button>
+          </div>
+          {autoBuyUnlocked && (
+            <label className="planner-follow">
+              <input type="checkbox" checked={goal.following} onChange={e => setGoalFollow(e.target.checked)} />
+              Follow with Auto-Buy{goal.following && !autoBuyEnabled ? ' (turn Auto-Buy on to start)' : ''}
+            </label>
+          )}
+          {goal.steps.length === 0 ? (
+            <p className="planner-muted">No purchases needed: just wait.</p>
+          ) : (
+            <ol className="planner-steps">
+              {goal.steps.map((step, i) => (
+                <li key={`${step.producerId}-${i}`} className="planner-step">
+                  <span className="planner-step-name">Buy {step.count}× {step.name}</span>
+                  <span className="planner-muted">→ {step.quantityAfter} owned</span>
+                  <span className="planner-step-cost">{formatNumberAdaptive(step.cost, 0, 2)}</span>
+                  <span className="planner-step-time">{step.startsInSeconds < 1 ? 'now' : `in ${formatTime(Math.ceil(step.startsInSeconds))}`}</span>
+                </li>
+              ))}
+            </ol>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
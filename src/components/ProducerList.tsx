@@ -4,18 +4,40 @@
 
 import { useGame } from '../hooks/useGame';
 import './ProducerList.scss';
-import { formatNumberAdaptive } from '../utils/gameUtils';
+import { formatNumberAdaptive, formatTime } from '../utils/gameUtils';
+import { getSecondsToAfford } from '../game/producers/valuation';
 import { NextUnlockHint } from './Producers/NextUnlockHint';
+import { BuyQuantitySelector } from './Producers/BuyQuantitySelector';
+import type { BigNum, BigNumSource } from '../utils/BigNum';
+import { CURRENCIES } from '../constants/gameConstants';
+import { SECONDARY_CURRENCIES } from '../game/currencies/Wallet';
+import type { CurrencyAmounts } from '../game/currencies/Wallet';
 
 /**
  * Grid of producer cards that players can purchase to increase production
  * Cards show affordability status with visual indicators
  */
 export const ProducerList: React.FC = () => {
-  const { producers, purchaseProducer, bestValueProducerId } = useGame();
+  const { producers, purchaseProducer, bestValueProducerId, buyQuantity, setBuyQuantity, resources, productionRate, currencies } = useGame();
 
   // Replace local formatter with global helper that respects the threshold
-  const formatNumber = (num: number): string => formatNumberAdaptive(num, 0, 2);
+  const formatNumber = (num: BigNumSource): string => formatNumberAdaptive(num, 0, 2);
+
+  /** " + 25 ☕" for each secondary currency part of a cost */
+  const formatExtraCost = (extra: CurrencyAmounts): string =>
+    SECONDARY_CURRENCIES.map(id => {
+      const amount = extra[id];
+      return amount ? ` + ${formatNumber(amount)} ${CURRENCIES[id].icon}` : '';
+    }).join('');
+
+  /** Seconds until every part of a cost is affordable at the current rates */
+  const getSecondsToAffordAll = (cost: BigNum, extra: CurrencyAmounts): number =>
+    SECONDARY_CURRENCIES.reduce((seconds, id) => {
+      const amount = extra[id];
+      if (!amount) return seconds;
+      const currency = currencies.find(c => c.id === id);
+      return Math.max(seconds, currency ? getSecondsToAfford(amount, currency.amount, currency.rate) : Infinity);
+    }, getSecondsToAfford(cost, resources, productionRate));
 
   /**
    * Handle producer purchase with click feedback
@@ -30,11 +52,15 @@ export const ProducerList: React.FC = () => {
   return (
     <div className="producer-list">
       <h2>Infrastructure & Automation</h2>
+      <BuyQuantitySelector value={buyQuantity} onChange={setBuyQuantity} />
       <div className="producers-container">
-        {visibleProducers.map((producer) => (
+        {visibleProducers.map((producer) => {
+          const secondsToAfford = getSecondsToAffordAll(producer.bulkCost, producer.bulkExtraCost);
+          const unit = producer.produces === 'resources' ? '' : ` ${CURRENCIES[producer.produces].icon}`;
+          return (
             <div
               key={producer.id}
-              className={`producer-card ${producer.canAfford ? 'affordable' : 'unaffordable'} ${bestValueProducerId === producer.id ? 'best-value' : ''}`}
+              className={`producer-card ${producer.canAffordBulk ? 'affordable' : 'unaffordable'} ${bestValueProducerId === producer.id ? 'best-value' : ''}`}
             >
               <div className="producer-header">
                 <h3>{producer.name}</h3>
@@ -46,28 +72,46 @@ export const ProducerList: React.FC = () => {
               <p className="producer-description">{producer.description}</p>
               <div className="producer-stats">
                 <span className="production-info">
-                  Production: {formatNumber(producer.productionRate * producer.quantity)}/sec
+                  Production: {formatNumber(producer.effectiveRate * producer.quantity)}{unit}/sec
+                </span>
+                <span className="unit-rate-info">
+                  Per unit: {formatNumberAdaptive(producer.effectiveRate, 2, 2)}{unit}/sec
                 </span>
                 <span className="spent-info">
                   Total Spent: {formatNumber(producer.totalSpent)}
                 </span>
                 <span className="avg-cost-info">
-                  Cost/Resource: {producer.productionRate > 0 ? formatNumber(producer.cost / producer.productionRate) : '—'}
+                  Cost/Resource: {producer.effectiveRate > 0 ? formatNumber(producer.cost.div(producer.effectiveRate)) : '—'}
                 </span>
+                {producer.synergy.boostedBy.map(s => (
+                  <span key={s.upgradeName} className="synergy-info">
+                    🔗 +{Math.round(s.bonus * 100)}% from {s.sourceName}s ({s.upgradeName})
+                  </span>
+                ))}
+                {producer.synergy.boosts.map(s => (
+                  <span key={s.upgradeName} className="synergy-info">
+                    🔗 Each one adds +{Math.round(s.bonusPerUnit * 100)}% to {s.targetName}s ({s.upgradeName})
+                  </span>
+                ))}
                 <span className="historical-cost-info">
-                  Historical Cost/Resource: {producer.productionRate > 0 && producer.quantity > 0 ? formatNumber(producer.totalSpent / (producer.productionRate * producer.quantity)) : '—'}
+                  Historical Cost/Resource: {producer.effectiveRate > 0 && producer.quantity > 0 ? formatNumber(producer.totalSpent.div(producer.effectiveRate * producer.quantity)) : '—'}
                 </span>
               </div>
               <button
                 className="purchase-button"
                 onClick={() => handlePurchase(producer.id)}
-                disabled={!producer.canAfford}
-                aria-label={`Buy ${producer.name} for ${formatNumber(producer.cost)} resources`}
+                disabled={!producer.canAffordBulk}
+                aria-label={`Buy ${producer.bulkCount} ${producer.name} for ${formatNumber(producer.bulkCost)} resources${formatExtraCost(producer.bulkExtraCost)}, adding ${formatNumber(producer.bulkProductionGain)}${unit} per second`}
               >
-                Buy for {formatNumber(producer.cost)}
+                Buy {buyQuantity !== 1 ? `x${producer.bulkCount} ` : ''}for {formatNumber(producer.bulkCost)}{formatExtraCost(producer.bulkExtraCost)}
+                <span className="purchase-gain">+{formatNumber(producer.bulkProductionGain)}{unit}/sec</span>
               </button>
+              {secondsToAfford > 0 && Number.isFinite(secondsToAfford) && (
+                <span className="producer-eta">Affordable in {formatTime(Math.ceil(secondsToAfford))}</span>
+              )}
             </div>
-          ))}
+          );
+        })}
           {lockedProducers.length > 0 && (
           <NextUnlockHint lockedProducers={lockedProducers} />
         )}
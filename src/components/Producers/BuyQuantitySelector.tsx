@@ -0,0 +1,27 @@
+import type { FC } from 'react';
+import '../ProducerList.scss';
+import { BUY_QUANTITIES } from '../../constants/gameConstants';
+import type { BuyQuantity } from '../../game/GameEngine';
+
+interface BuyQuantitySelectorProps {
+  value: BuyQuantity;
+  onChange: (quantity: BuyQuantity) => void;
+}
+
+/** Toggle group choosing how many producers each Buy click purchases */
+export const BuyQuantitySelector: FC<BuyQuantitySelectorProps> = ({ value, onChange }) => {
+  return (
+    <div className="buy-quantity-selector" role="group" aria-label="Buy quantity">
+      {BUY_QUANTITIES.map(q => (
+        <button
+          key={q}
+          className={`buy-quantity-option ${value === q ? 'active' : ''}`}
+          onClick={() => onChange(q)}
+          aria-pressed={value === q}
+        >
+          {q === 'max' ? 'Max' : `x${q}`}
+        </button>
+      ))}
+    </div>
+  );
+};
@@ -0,0 +1,37 @@
+/**
+ * Research component - research tree with prerequisites and exclusive branches
+ */
+
+import { useState } from 'react';
+import { useGame } from '../hooks/useGame';
+import { ResearchGraph } from './Research/ResearchGraph';
+import { ResearchDetails } from './Research/ResearchDetails';
+import './Research.scss';
+
+/**
+ * Navigable research graph with a detail panel for the selected node
+ */
+export const Research: React.FC = () => {
+  const { research, activeResearchId, startResearch } = useGame();
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+
+  const selected = research.find(n => n.id === (selectedId ?? activeResearchId)) ?? research[0];
+  const active = research.find(n => n.id === activeResearchId);
+
+  if (research.length === 0) return null;
+
+  return (
+    <div className="research-container">
+      <h2 className="research-title">Research</h2>
+      <p className="research-muted">
+        {active
+          ? `Researching ${active.name}: ${Math.floor(active.progress * 100)}%`
+          : 'One project at a time. Research resets when you ship to production.'}
+      </p>
+      <ResearchGraph nodes={research} selectedId={selected?.id ?? null} onSelect={setSelectedId} />
+      {selected && (
+        <ResearchDetails node={selected} nodes={research} busy={activeResearchId !== null} onStart={startResearch} />
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,69 @@
+import type { FC } from 'react';
+import type { ResearchNodeInfo } from '../../context/GameContext';
+import { CURRENCIES } from '../../constants/gameConstants';
+import { SECONDARY_CURRENCIES } from '../../game/currencies/Wallet';
+import { formatNumberAdaptive, formatTime } from '../../utils/gameUtils';
+import '../Research.scss';
+
+interface ResearchDetailsProps {
+  node: ResearchNodeInfo;
+  nodes: ResearchNodeInfo[];
+  /** Whether another node is being researched */
+  busy: boolean;
+  onStart: (id: string) => void;
+}
+
+const STATUS_LABELS: Record<ResearchNodeInfo['status'], string> = {
+  locked: 'Locked',
+  available: 'Available',
+  researching: 'Researching',
+  completed: 'Completed',
+  excluded: 'Ruled out this run',
+};
+
+/** Selected research node: effects, prerequisites, exclusive choices, cost and the Research button */
+export const ResearchDetails: FC<ResearchDetailsProps> = ({ node, nodes, busy, onStart }) => {
+  const nameOf = (id: string) => nodes.find(n => n.id === id)?.name ?? id;
+  const rivals = node.exclusiveGroup
+    ? nodes.filter(n => n.exclusiveGroup === node.exclusiveGroup && n.id !== node.id)
+    : [];
+  const cost = [
+    `${formatNumberAdaptive(node.cost, 0, 2)} resources`,
+    ...SECONDARY_CURRENCIES.flatMap(id => {
+      const amount = node.extraCost[id];
+      return amount ? [`${formatNumberAdaptive(amount, 0, 2)} ${CURRENCIES[id].icon} ${CURRENCIES[id].name}`] : [];
+    }),
+  ].join(' + ');
+
+  return (
+    <div className="research-details" aria-live="polite">
+      <div className="research-details-header">
+        <h3>{node.name}</h3>
+        <span className={`research-status ${node.status}`}>{STATUS_LABELS[node.status]}</span>
+      </div>
+      <p className="research-description">{node.description}</p>
+      <ul className="research-effects">
+        {node.effects.map(effect => <li key={effect}>{effect}</li>)}
+      </ul>
+      {node.requires.length > 0 && (
+        <p className="research-muted">Requires: {node.requires.map(nameOf).join(', ')}</p>
+      )}
+      {rivals.length > 0 && (
+        <p className="research-exclusive">
+          Choose one per run: researching this rules out {rivals.map(r => r.name).join(', ')}.
+        </p>
+      )}
+      {node.status === 'researching' && node.secondsRemaining !== null && (
+        <p className="research-muted">Done in {formatTime(node.secondsRemaining)}</p>
+      )}
+      {(node.status === 'available' || node.status === 'locked') && (
+        <div className="research-action">
+          <span className="research-cost">{cost} · {formatTime(node.researchSeconds)}</span>
+          <button className="research-button" disabled={!node.canAfford} onClick={() => onStart(node.id)}>
+            {node.status === 'locked' ? 'Locked' : busy ? 'Research in progress' : 'Research'}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
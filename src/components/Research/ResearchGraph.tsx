@@ -0,0 +1,128 @@
+import { useRef } from 'react';
+import type { FC, KeyboardEvent } from 'react';
+import type { ResearchNodeInfo } from '../../context/GameContext';
+import '../Research.scss';
+
+interface ResearchGraphProps {
+  nodes: ResearchNodeInfo[];
+  selectedId: string | null;
+  onSelect: (id: string) => void;
+}
+
+const NODE_WIDTH = 170;
+const NODE_HEIGHT = 64;
+const GAP_X = 56;
+const GAP_Y = 20;
+
+interface NodePosition {
+  column: number;
+  row: number;
+  x: number;
+  y: number;
+}
+
+const STATUS_ICONS: Record<ResearchNodeInfo['status'], string> = {
+  locked: '🔒',
+  available: '🔬',
+  researching: '⏳',
+  completed: '✅',
+  excluded: '🚫',
+};
+
+/**
+ * Columns by prerequisite depth (a node sits one column right of its deepest prerequisite),
+ * rows in content order within a column. Prerequisites always come first in the content.
+ */
+function layoutNodes(nodes: ResearchNodeInfo[]): Map<string, NodePosition> {
+  const positions = new Map<string, NodePosition>();
+  const rowsUsed: number[] = [];
+  for (const node of nodes) {
+    const column = node.requires.reduce((max, id) => Math.max(max, (positions.get(id)?.column ?? -1) + 1), 0);
+    const row = rowsUsed[column] ?? 0;
+    rowsUsed[column] = row + 1;
+    positions.set(node.id, { column, row, x: column * (NODE_WIDTH + GAP_X), y: row * (NODE_HEIGHT + GAP_Y) });
+  }
+  return positions;
+}
+
+/**
+ * Research tree as a graph: nodes are buttons, SVG lines connect prerequisites to the
+ * nodes they unlock. Arrow keys move the selection: left/right between columns, up/down
+ * within a column.
+ */
+export const ResearchGraph: FC<ResearchGraphProps> = ({ nodes, selectedId, onSelect }) => {
+  const buttons = useRef(new Map<string, HTMLButtonElement>());
+  const positions = layoutNodes(nodes);
+  const placed = nodes.map(node => ({ node, pos: positions.get(node.id)! }));
+  const width = Math.max(0, ...placed.map(p => p.pos.x + NODE_WIDTH));
+  const height = Math.max(0, ...placed.map(p => p.pos.y + NODE_HEIGHT));
+  const focusId = selectedId ?? nodes[0]?.id;
+
+  const move = (id: string) => {
+    onSelect(id);
+    buttons.current.get(id)?.focus();
+  };
+
+  const handleKeyDown = (e: KeyboardEvent<HTMLDivElement>) => {
+    const current = focusId ? positions.get(focusId) : undefined;
+    if (!current) return;
+    const inColumn = (column: number) => placed.filter(p => p.pos.column === column);
+    let target: { node: ResearchNodeInfo; pos: NodePosition } | undefined;
+    if (e.key === 'ArrowUp' || e.key === 'ArrowDown') {
+      target = inColumn(current.column).find(p => p.pos.row === current.row + (e.key === 'ArrowUp' ? -1 : 1));
+    } else if (e.key === 'ArrowLeft' || e.key === 'ArrowRight') {
+      // Nearest row in the neighbouring column
+      const column = inColumn(current.column + (e.key === 'ArrowLeft' ? -1 : 1));
+      target = column.reduce<typeof target>((best, p) =>
+        !best || Math.abs(p.pos.y - current.y) < Math.abs(best.pos.y - current.y) ? p : best, undefined);
+    } else {
+      return;
+    }
+    e.preventDefault();
+    if (target) move(target.node.id);
+  };
+
+  return (
+    <div className="research-graph" role="group" aria-label="Research tree" onKeyDown={handleKeyDown}>
+      <div className="research-canvas" style={{ width, height }}>
+        <svg className="research-edges" width={width} height={height} aria-hidden="true">
+          {placed.flatMap(({ node, pos }) => node.requires.map(reqId => {
+            const from = positions.get(reqId);
+            if (!from) return null;
+            const done = nodes.find(n => n.id === reqId)?.status === 'completed';
+            const x1 = from.x + NODE_WIDTH;
+            const y1 = from.y + NODE_HEIGHT / 2;
+            const x2 = pos.x;
+            const y2 = pos.y + NODE_HEIGHT / 2;
+            const midX = (x1 + x2) / 2;
+            return (
+              <path
+                key={`${reqId}-${node.id}`}
+                className={`research-edge ${done ? 'done' : ''}`}
+                d={`M ${x1} ${y1} C ${midX} ${y1}, ${midX} ${y2}, ${x2} ${y2}`}
+              />
+            );
+          }))}
+        </svg>
+        {placed.map(({ node, pos }) => (
+          <button
+            key={node.id}
+            ref={el => { if (el) buttons.current.set(node.id, el); else buttons.current.delete(node.id); }}
+            className={`research-node ${node.status} ${node.id === selectedId ? 'selected' : ''}`}
+            style={{ left: pos.x, top: pos.y, width: NODE_WIDTH, height: NODE_HEIGHT }}
+            tabIndex={node.id === focusId ? 0 : -1}
+            aria-pressed={node.id === selectedId}
+            aria-label={`${node.name}, ${node.status}`}
+            onClick={() => move(node.id)}
+          >
+            <span className="research-node-name">{STATUS_ICONS[node.status]} {node.name}</span>
+            {node.status === 'researching' && (
+              <span className="research-node-progress" style={{ width: `${node.progress * 100}%` }} />
+            )}
+            {node.exclusiveGroup && <span className="research-node-badge">either / or</span>}
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+};
@@ -6,14 +6,18 @@ import { useGame } from '../hooks/useGame';
 import './ResourceDisplay.scss';
 import { formatNumberUnified, getNumberFormatMode, setNumberFormatMode } from '../utils/gameUtils';
 import * as React from "react";
+import { ProductionBreakdownTooltip } from './ResourceDisplay/ProductionBreakdownTooltip';
+import { CurrencyList } from './ResourceDisplay/CurrencyList';
 
 /**
- * Shows the player's current resource count and production rate per second
+ * Shows the player's current resource count and production rate per second,
+ * followed by any secondary currencies in play
  * Numbers automatically format to scientific notation for large values
  */
 export const ResourceDisplay: React.FC = () => {
-  const { resources, productionRate } = useGame();
+  const { resources, productionRate, currencies, releasePoints, prestigeMultiplier, getProductionBreakdown } = useGame();
   const [mode, setMode] = React.useState(getNumberFormatMode());
+  const [showBreakdown, setShowBreakdown] = React.useState(false);
 
   const toggleMode = () => {
     const next = mode === 'scientific' ? 'suffix' : 'scientific';
@@ -29,12 +33,29 @@ export const ResourceDisplay: React.FC = () => {
           {formatNumberUnified(resources, mode, 2, 2)}
         </span>
       </div>
-      <div className="production-rate">
+      <div
+        className="production-rate"
+        tabIndex={0}
+        onMouseEnter={() => setShowBreakdown(true)}
+        onMouseLeave={() => setShowBreakdown(false)}
+        onFocus={() => setShowBreakdown(true)}
+        onBlur={() => setShowBreakdown(false)}
+      >
         <span className="label">Per Second:</span>
-        <span className="value" aria-label={`Production rate: ${productionRate} per second`} title={`Exact: ${productionRate}`}>
+        <span className="value" aria-label={`Production rate: ${productionRate} per second`}>
           {formatNumberUnified(productionRate, mode, 2, 2)}
         </span>
+        {showBreakdown && <ProductionBreakdownTooltip breakdown={getProductionBreakdown()} />}
       </div>
+      <CurrencyList currencies={currencies.filter(c => c.id !== 'resources')} mode={mode} />
+      {releasePoints > 0 && (
+        <div className="release-points">
+          <span className="label">Release Points:</span>
+          <span className="value" aria-label={`${releasePoints} Release Points, production multiplier ${prestigeMultiplier.toFixed(2)}`}>
+            {releasePoints} <small>(x{prestigeMultiplier.toFixed(2)})</small>
+          </span>
+        </div>
+      )}
       <button className="format-toggle" onClick={toggleMode} aria-label={`Toggle number format (current: ${mode})`}>
         Format: {mode === 'scientific' ? 'Scientific' : 'Suffix'}
       </button>
@@ -0,0 +1,28 @@
+import type { FC } from 'react';
+import '../ResourceDisplay.scss';
+import type { CurrencyInfo } from '../../context/GameContext';
+import { formatNumberUnified } from '../../utils/gameUtils';
+import type { NumberFormatMode } from '../../utils/gameUtils';
+
+interface CurrencyListProps {
+  currencies: CurrencyInfo[];
+  mode: NumberFormatMode;
+}
+
+/** Secondary currencies (Commits, Coffee, Tech Debt) with their balance and rate */
+export const CurrencyList: FC<CurrencyListProps> = ({ currencies, mode }) => {
+  if (currencies.length === 0) return null;
+  return (
+    <ul className="currency-list">
+      {currencies.map(c => (
+        <li key={c.id} className="currency-row">
+          <span className="currency-name">{c.icon} {c.name}</span>
+          <span className="currency-amount" aria-label={`${c.name}: ${c.amount}, ${c.rate} per second`}>
+            {formatNumberUnified(c.amount, mode, 2, 2)}
+            <small> (+{formatNumberUnified(c.rate, mode, 2, 2)}/s)</small>
+          </span>
+        </li>
+      ))}
+    </ul>
+  );
+};
@@ -0,0 +1,68 @@
+import type { FC } from 'react';
+import '../ResourceDisplay.scss';
+import type { ModifierLine, ProductionBreakdown } from '../../game/GameEngine';
+import { formatNumberAdaptive } from '../../utils/gameUtils';
+
+interface ProductionBreakdownTooltipProps {
+  breakdown: ProductionBreakdown;
+}
+
+const formatModifier = (m: ModifierLine): string =>
+  m.type === 'mult' ? `x${formatNumberAdaptive(m.value, 2, 2)}` : `+${formatNumberAdaptive(m.value, 2, 2)}/s`;
+
+const ModifierRows: FC<{ lines: ModifierLine[] }> = ({ lines }) => (
+  <>
+    {lines.map(m => (
+      <li key={m.source} className="breakdown-modifier">
+        <span>{m.source}{m.secondsRemaining !== null && <small> ({m.secondsRemaining}s)</small>}</span>
+        <span>{formatModifier(m)}</span>
+      </li>
+    ))}
+  </>
+);
+
+/** Per-producer output with its modifiers, then the global modifiers that scale the sum */
+export const ProductionBreakdownTooltip: FC<ProductionBreakdownTooltipProps> = ({ breakdown }) => {
+  const format = (n: number | ProductionBreakdown['total']) => formatNumberAdaptive(n, 2, 2);
+  if (breakdown.producers.length === 0) {
+    return <div className="production-breakdown" role="tooltip">No producers yet: buy one to start earning per second.</div>;
+  }
+  return (
+    <div className="production-breakdown" role="tooltip">
+      <ul>
+        {breakdown.producers.map(p => (
+          <li key={p.producerId} className="breakdown-producer">
+            <div className="breakdown-row">
+              <span>{p.quantity}x {p.name} <small>({format(p.baseRate)}/s each)</small></span>
+              <span>{format(p.total)}/s</span>
+            </div>
+            {(p.modifiers.length > 0 || p.synergyMultiplier !== 1) && (
+              <ul>
+                <ModifierRows lines={p.modifiers} />
+                {p.synergyMultiplier !== 1 && (
+                  <li className="breakdown-modifier">
+                    <span>Synergies</span>
+                    <span>x{p.synergyMultiplier.toFixed(2)}</span>
+                  </li>
+                )}
+              </ul>
+            )}
+          </li>
+        ))}
+      </ul>
+      <div className="breakdown-row breakdown-subtotal">
+        <span>Subtotal</span>
+        <span>{format(breakdown.subtotal)}/s</span>
+      </div>
+      {breakdown.global.length > 0 && (
+        <ul>
+          <ModifierRows lines={breakdown.global} />
+        </ul>
+      )}
+      <div className="breakdown-row breakdown-total">
+        <span>Total</span>
+        <span>{format(breakdown.total)}/s</span>
+      </div>
+    </div>
+  );
+};
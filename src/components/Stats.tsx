@@ -0,0 +1,121 @@
+/**
+ * Stats component - lifetime statistics and where resources came from
+ */
+
+import { useState } from 'react';
+import { useGame } from '../hooks/useGame';
+import { HISTORY_CONFIG } from '../constants/gameConstants';
+import type { HistoryTierId } from '../game/history/ProductionHistory';
+import { HistoryChart } from './Stats/HistoryChart';
+import type { HistoryMetric } from './Stats/HistoryChart';
+import type { EarningSource } from '../game/stats/StatsTracker';
+import type { BigNum } from '../utils/BigNum';
+import { formatNumberAdaptive, formatTime } from '../utils/gameUtils';
+import './Stats.scss';
+
+const SOURCE_LABELS: Record<EarningSource, string> = {
+  click: 'Clicks',
+  typing: 'Typing (characters)',
+  words: 'Word bonuses',
+  challenges: 'Challenges',
+  incidents: 'Merged PR bonuses',
+  offline: 'Offline progress',
+};
+
+/**
+ * Summary tiles, a history chart and an earnings breakdown by source and by producer
+ */
+export const Stats: React.FC = () => {
+  const { stats, getProductionHistory } = useGame();
+  const [historyTier, setHistoryTier] = useState<HistoryTierId>('seconds');
+  const [historyMetric, setHistoryMetric] = useState<HistoryMetric>('resources');
+  const formatNumber = (num: BigNum): string => formatNumberAdaptive(num, 0, 2);
+
+  const rows = [
+    ...stats.earnedByProducer.map(p => ({ key: p.producerId, label: p.name, amount: p.amount })),
+    ...stats.earnedBySource.map(s => ({ key: s.source, label: SOURCE_LABELS[s.source], amount: s.amount })),
+  ].filter(row => row.amount.gt(0));
+  rows.sort((a, b) => b.amount.cmp(a.amount));
+
+  const share = (amount: BigNum): number =>
+    stats.lifetimeEarned.gt(0) ? Math.min(100, amount.div(stats.lifetimeEarned).toNumber() * 100) : 0;
+
+  return (
+    <div className="stats-container">
+      <h2 className="stats-title">Statistics</h2>
+      <div className="stats-tiles">
+        <div className="stats-tile">
+          <span className="stats-tile-label">Lifetime earned</span>
+          <span className="stats-tile-value">{formatNumber(stats.lifetimeEarned)}</span>
+        </div>
+        <div className="stats-tile">
+          <span className="stats-tile-label">Peak production</span>
+          <span className="stats-tile-value">{formatNumberAdaptive(stats.peakProductionRate, 2, 2)}/sec</span>
+        </div>
+        <div className="stats-tile">
+          <span className="stats-tile-label">Total clicks</span>
+          <span className="stats-tile-value">{stats.totalClicks.toLocaleString()}</span>
+        </div>
+        <div className="stats-tile">
+          <span className="stats-tile-label">Play time</span>
+          <span className="stats-tile-value">{stats.playTimeSeconds >= 1 ? formatTime(stats.playTimeSeconds) : '0s'}</span>
+        </div>
+        <div className="stats-tile">
+          <span className="stats-tile-label">Sessions</span>
+          <span className="stats-tile-value">{stats.sessionCount}</span>
+        </div>
+      </div>
+
+      <h3 className="stats-subtitle">History</h3>
+      <div className="history-controls">
+        <div className="history-toggle" role="group" aria-label="History range">
+          {HISTORY_CONFIG.tiers.map(tier => (
+            <button
+              key={tier.id}
+              className={`history-option ${historyTier === tier.id ? 'active' : ''}`}
+              aria-pressed={historyTier === tier.id}
+              onClick={() => setHistoryTier(tier.id)}
+            >
+              {tier.label}
+            </button>
+          ))}
+        </div>
+        <div className="history-toggle" role="group" aria-label="History metric">
+          {(['resources', 'productionRate'] as const).map(metric => (
+            <button
+              key={metric}
+              className={`history-option ${historyMetric === metric ? 'active' : ''}`}
+              aria-pressed={historyMetric === metric}
+              onClick={() => setHistoryMetric(metric)}
+            >
+              {metric === 'resources' ? 'Resources' : 'Per second'}
+            </button>
+          ))}
+        </div>
+      </div>
+      <HistoryChart history={getProductionHistory(historyTier)} metric={historyMetric} />
+
+      <h3 className="stats-subtitle">Earnings by source</h3>
+      {rows.length === 0 ? (
+        <p className="stats-empty">Nothing earned yet. Start clicking!</p>
+      ) : (
+        <ul className="stats-sources">
+          {rows.map(row => {
+            const percent = share(row.amount);
+            return (
+              <li key={row.key} className="stats-source">
+                <div className="stats-source-header">
+                  <span className="stats-source-label">{row.label}</span>
+                  <span className="stats-source-amount">{formatNumber(row.amount)} ({percent.toFixed(1)}%)</span>
+                </div>
+                <div className="stats-source-bar" role="presentation">
+                  <div className="stats-source-fill" style={{ width: `${percent}%` }} />
+                </div>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+};
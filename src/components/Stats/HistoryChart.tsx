@@ -0,0 +1,77 @@
+import type { FC } from 'react';
+import type { ProductionHistorySnapshot } from '../../game/GameEngine';
+import { formatNumberAdaptive, formatTime } from '../../utils/gameUtils';
+import '../Stats.scss';
+
+export type HistoryMetric = 'resources' | 'productionRate';
+
+interface HistoryChartProps {
+  history: ProductionHistorySnapshot;
+  metric: HistoryMetric;
+}
+
+const WIDTH = 600;
+const HEIGHT = 200;
+const PADDING = { top: 10, right: 10, bottom: 22, left: 10 };
+
+/**
+ * Line chart of one history metric on a log scale (growth is exponential), plain SVG.
+ * Vertical markers show producer unlocks, upgrade purchases and releases; hover for details.
+ */
+export const HistoryChart: FC<HistoryChartProps> = ({ history, metric }) => {
+  const points = history.samples
+    .map(s => ({ t: s.t, value: s[metric] }))
+    .filter(p => p.value.gt(0));
+
+  if (points.length < 2) {
+    return <p className="history-empty">Not enough history yet. Check back in a little while.</p>;
+  }
+
+  const tStart = points[0].t;
+  const tEnd = points[points.length - 1].t;
+  const logs = points.map(p => p.value.log10());
+  let yMin = Math.min(...logs);
+  let yMax = Math.max(...logs);
+  // Keep flat lines visible in the middle of the chart
+  if (yMax - yMin < 1e-9) { yMin -= 0.5; yMax += 0.5; }
+
+  const innerWidth = WIDTH - PADDING.left - PADDING.right;
+  const innerHeight = HEIGHT - PADDING.top - PADDING.bottom;
+  const x = (t: number) => PADDING.left + (tEnd > tStart ? (t - tStart) / (tEnd - tStart) : 1) * innerWidth;
+  const y = (log: number) => PADDING.top + (1 - (log - yMin) / (yMax - yMin)) * innerHeight;
+
+  const path = points.map((p, i) => `${i === 0 ? 'M' : 'L'}${x(p.t).toFixed(1)},${y(logs[i]).toFixed(1)}`).join(' ');
+  const markers = history.markers.filter(m => m.t >= tStart && m.t <= tEnd);
+  const label = metric === 'resources' ? 'Resources' : 'Production per second';
+  const first = points[0].value;
+  const last = points[points.length - 1].value;
+  const peak = points.reduce((max, p) => (p.value.gt(max) ? p.value : max), first);
+
+  return (
+    <figure className="history-chart">
+      <svg
+        viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+        role="img"
+        aria-label={`${label} over the last ${formatTime((tEnd - tStart) / 1000)}: from ${formatNumberAdaptive(first, 0, 2)} to ${formatNumberAdaptive(last, 0, 2)}`}
+      >
+        <line className="history-axis" x1={PADDING.left} x2={WIDTH - PADDING.right} y1={HEIGHT - PADDING.bottom} y2={HEIGHT - PADDING.bottom} />
+        {markers.map((m, i) => (
+          <line key={`${m.t}-${i}`} className={`history-marker ${m.kind}`} x1={x(m.t)} x2={x(m.t)} y1={PADDING.top} y2={HEIGHT - PADDING.bottom}>
+            <title>{m.label}</title>
+          </line>
+        ))}
+        <path className="history-line" d={path} />
+        <text className="history-label" x={PADDING.left} y={HEIGHT - 6}>{formatTime((tEnd - tStart) / 1000)} ago</text>
+        <text className="history-label" x={WIDTH - PADDING.right} y={HEIGHT - 6} textAnchor="end">now</text>
+        <text className="history-label" x={WIDTH - PADDING.right} y={PADDING.top + 10} textAnchor="end">
+          {formatNumberAdaptive(peak, 0, 2)}
+        </text>
+      </svg>
+      <figcaption className="history-legend">
+        <span><i className="history-swatch unlock" /> Producer unlocked</span>
+        <span><i className="history-swatch upgrade" /> Upgrade bought</span>
+        <span><i className="history-swatch release" /> Shipped to production</span>
+      </figcaption>
+    </figure>
+  );
+};
@@ -3,10 +3,11 @@ import { useCallback, useState } from 'react';
 import { useGame } from '../hooks/useGame';
 import { ChallengeBox } from './TypingPanel/ChallengeBox';
 import { ToggleChallenges } from './TypingPanel/ToggleChallenges';
+import { TypingMetricsPanel } from './TypingPanel/TypingMetricsPanel';
 import './TypingPanel.scss';
 
 export const TypingPanel: FC = () => {
-  const { typeChar, currentStreakMultiplier, streakWords, wordsTyped, challenge, nextChallengeInWords, triggerChallenge, typingUnlocked, challengesUnlocked, challengesEnabled, toggleChallenges } = useGame();
+  const { typeChar, currentStreakMultiplier, streakWords, wordsTyped, typingMetrics, challenge, nextChallengeInWords, triggerChallenge, typingUnlocked, challengesUnlocked, challengesEnabled, toggleChallenges } = useGame();
   const [inputValue, setInputValue] = useState('');
 
   const handleChange = useCallback((e: React.ChangeEvent<HTMLTextAreaElement>) => {
@@ -69,6 +70,7 @@ export const TypingPanel: FC = () => {
         <span>Current Streak: {streakWords}</span>
         <span>Streak Multiplier: x{currentStreakMultiplier.toFixed(2)}</span>
       </div>
+      <TypingMetricsPanel metrics={typingMetrics} />
       {/* Challenges toggle */}
       {challengesUnlocked && (
         <ToggleChallenges enabled={challengesEnabled} onToggle={toggleChallenges} />
@@ -0,0 +1,65 @@
+import type { FC } from 'react';
+import type { TypingMetrics } from '../../context/GameContext';
+import { TYPING_CONFIG } from '../../constants/gameConstants';
+import { formatTime } from '../../utils/gameUtils';
+import '../TypingPanel.scss';
+
+interface TypingMetricsPanelProps {
+  metrics: TypingMetrics;
+}
+
+const formatAccuracy = (accuracy: number | null): string =>
+  accuracy === null ? '–' : `${(accuracy * 100).toFixed(1)}%`;
+
+export const TypingMetricsPanel: FC<TypingMetricsPanelProps> = ({ metrics }) => {
+  const { wpm, inFlow, session, recentSessions, lifetime } = metrics;
+  const flowPercent = Math.round((TYPING_CONFIG.flowMultiplier - 1) * 100);
+
+  return (
+    <div className="typing-metrics">
+      <div className="typing-stats">
+        <span className={inFlow ? 'typing-flow' : ''}>
+          WPM: {Math.round(wpm)}{inFlow && ` · 🔥 Flow +${flowPercent}% production`}
+        </span>
+        <span>Session Peak: {Math.round(session?.peakWpm ?? 0)} WPM</span>
+        <span>Best: {Math.round(lifetime.peakWpm)} WPM</span>
+        <span>Challenge Accuracy: {formatAccuracy(lifetime.accuracy)}</span>
+        <span>Rejected Chars: {session?.rejectedChars ?? 0}</span>
+      </div>
+      {!inFlow && (
+        <p className="typing-hint">
+          Keep {TYPING_CONFIG.flowWpm}+ WPM for {TYPING_CONFIG.flowSeconds}s to enter flow (+{flowPercent}% production).
+        </p>
+      )}
+      {recentSessions.length > 0 && (
+        <details className="typing-sessions">
+          <summary>Recent sessions ({recentSessions.length})</summary>
+          <table>
+            <thead>
+              <tr>
+                <th>Length</th>
+                <th>Words</th>
+                <th>Avg WPM</th>
+                <th>Peak WPM</th>
+                <th>Accuracy</th>
+                <th>Rejected</th>
+              </tr>
+            </thead>
+            <tbody>
+              {recentSessions.map(s => (
+                <tr key={s.startedAt}>
+                  <td>{formatTime(Math.max(1, Math.round((s.endedAt - s.startedAt) / 1000)))}</td>
+                  <td>{s.words}</td>
+                  <td>{Math.round(s.averageWpm)}</td>
+                  <td>{Math.round(s.peakWpm)}</td>
+                  <td>{formatAccuracy(s.accuracy)}</td>
+                  <td>{s.rejectedChars}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </details>
+      )}
+    </div>
+  );
+};
@@ -6,12 +6,14 @@ import { useGame } from '../hooks/useGame';
 import './Upgrades.scss';
 import { RepeatableCard } from './Upgrades/RepeatableCard';
 import { OneTimeCard } from './Upgrades/OneTimeCard';
+import { formatNumberAdaptive } from '../utils/gameUtils';
+import { getSecondsToAfford } from '../game/producers/valuation';
 
 /**
  * Displays all available one-time upgrades that unlock game features
  */
 export const Upgrades: React.FC = () => {
-  const { upgrades, purchaseUpgrade, clickPowerLevel, clickValue, clickPowerUpgradeCost, canAffordClickPowerUpgrade, purchaseClickPowerUpgrade, autoBuySpeedLevel, autoBuySpeedUpgradeCost, canAffordAutoBuySpeedUpgrade, purchaseAutoBuySpeedUpgrade } = useGame();
+  const { upgrades, purchaseUpgrade, producerUpgrades, purchaseProducerUpgrade, clickPowerLevel, clickValue, clickPowerUpgradeCost, canAffordClickPowerUpgrade, purchaseClickPowerUpgrade, autoBuySpeedLevel, autoBuySpeedUpgradeCost, canAffordAutoBuySpeedUpgrade, purchaseAutoBuySpeedUpgrade, upgradeBotUnlocked, autoBuyUpgrades, setUpgradeAutoBuy, resources, productionRate } = useGame();
 
   const handlePurchase = (upgradeId: string) => {
     purchaseUpgrade(upgradeId);
@@ -19,6 +21,13 @@ export const Upgrades: React.FC = () => {
 
   const autoBuyUnlocked = upgrades.find(u => u.id === 'autoBuy')?.purchased ?? false;
   const typingUnlocked = upgrades.find(u => u.id === 'typing')?.purchased ?? false;
+  // Upgrade Bot opt-in toggle for a card (none until the bot is owned)
+  const botToggle = (upgradeId: string) => upgradeBotUnlocked
+    ? { enabled: autoBuyUpgrades.includes(upgradeId), onToggle: (enabled: boolean) => setUpgradeAutoBuy(upgradeId, enabled) }
+    : undefined;
+  // Show bought and unlocked producer upgrades, plus the next locked one for each producer
+  const visibleProducerUpgrades = producerUpgrades.filter((u, i) =>
+    u.purchased || u.unlocked || !producerUpgrades.slice(0, i).some(prev => prev.producerId === u.producerId && !prev.purchased && !prev.unlocked));
 
   return (
     <div className="upgrades-container">
@@ -31,7 +40,9 @@ export const Upgrades: React.FC = () => {
           cost={clickPowerUpgradeCost}
           canAfford={canAffordClickPowerUpgrade}
           onPurchase={purchaseClickPowerUpgrade}
-          description={`Increase manual click value (current: +${clickValue} per click). Each level doubles click value. Cost doubles each purchase.`}
+          secondsToAfford={getSecondsToAfford(clickPowerUpgradeCost, resources, productionRate)}
+          autoBuy={botToggle('clickPower')}
+          description={`Increase manual click value (current: +${formatNumberAdaptive(clickValue, 0, 2)} per click). Each level doubles click value. Cost doubles each purchase.`}
         />
 
         {/* Auto-Buy Speed repeatable upgrade (visible after Auto-Buy unlock) */}
@@ -42,13 +53,15 @@ export const Upgrades: React.FC = () => {
             cost={autoBuySpeedUpgradeCost}
             canAfford={canAffordAutoBuySpeedUpgrade}
             onPurchase={purchaseAutoBuySpeedUpgrade}
+            secondsToAfford={getSecondsToAfford(autoBuySpeedUpgradeCost, resources, productionRate)}
+            autoBuy={botToggle('autoBuySpeed')}
             description="Reduce auto-buy interval by 2s per level (min 2s). Current interval depends on level."
           />
         )}
       </div>
       <div className="upgrades-grid">
         {upgrades
-          .filter(upg => !(upg.id === 'challenges' && !typingUnlocked))
+          .filter(upg => !(upg.id === 'challenges' && !typingUnlocked) && !(upg.id === 'upgradeBot' && !autoBuyUnlocked))
           .map(upgrade => (
             <OneTimeCard
               key={upgrade.id}
@@ -58,10 +71,33 @@ export const Upgrades: React.FC = () => {
               purchased={upgrade.purchased}
               canAfford={upgrade.canAfford}
               onPurchase={() => handlePurchase(upgrade.id)}
-              icon={upgrade.id === 'typing' ? '⌨️' : upgrade.id === 'autoBuy' ? '🤖' : upgrade.id === 'challenges' ? '🎯' : undefined}
+              icon={upgrade.id === 'typing' ? '⌨️' : upgrade.id === 'autoBuy' ? '🤖' : upgrade.id === 'challenges' ? '🎯' : upgrade.id === 'upgradeBot' ? '🛠️' : undefined}
+              autoBuy={upgrade.id === 'upgradeBot' ? undefined : botToggle(upgrade.id)}
             />
           ))}
       </div>
+      {visibleProducerUpgrades.length > 0 && (
+        <>
+          <h3 className="upgrades-subtitle">Producer Upgrades</h3>
+          <div className="upgrades-grid">
+            {visibleProducerUpgrades.map(upgrade => (
+              <OneTimeCard
+                key={upgrade.id}
+                name={upgrade.name}
+                description={upgrade.unlocked
+                  ? upgrade.description
+                  : `${upgrade.description}. Requires ${upgrade.requiredOwned} ${upgrade.producerName} owned.`}
+                cost={upgrade.cost}
+                purchased={upgrade.purchased}
+                canAfford={upgrade.canAfford}
+                onPurchase={() => purchaseProducerUpgrade(upgrade.id)}
+                autoBuy={botToggle(upgrade.id)}
+                icon={upgrade.unlocked ? '📈' : '🔒'}
+              />
+            ))}
+          </div>
+        </>
+      )}
     </div>
   );
 };
@@ -0,0 +1,25 @@
+import type { FC } from 'react';
+import '../Upgrades.scss';
+
+/** Opt-in state for Upgrade Bot purchases, passed to upgrade cards */
+export interface BotToggleState {
+  enabled: boolean;
+  onToggle: (enabled: boolean) => void;
+}
+
+interface BotToggleProps extends BotToggleState {
+  /** Upgrade name, for the accessible label */
+  name: string;
+}
+
+export const BotToggle: FC<BotToggleProps> = ({ name, enabled, onToggle }) => (
+  <label className={`bot-toggle ${enabled ? 'on' : ''}`} title="Let the Upgrade Bot buy this when Auto-Buy is on">
+    <input
+      type="checkbox"
+      checked={enabled}
+      onChange={e => onToggle(e.target.checked)}
+      aria-label={`Upgrade Bot buys ${name}`}
+    />
+    <span>🤖 Auto</span>
+  </label>
+);
@@ -1,18 +1,23 @@
 import type { FC } from 'react';
 import '../Upgrades.scss';
 import { formatNumberAdaptive } from '../../utils/gameUtils';
+import type { BigNumSource } from '../../utils/BigNum';
+import { BotToggle } from './BotToggle';
+import type { BotToggleState } from './BotToggle';
 
 interface OneTimeCardProps {
   name: string;
   description: string;
-  cost: number;
+  cost: BigNumSource;
   purchased: boolean;
   canAfford: boolean;
   onPurchase: () => boolean | void;
   icon?: string;
+  /** Upgrade Bot opt-in (shown once the bot is owned, until purchased) */
+  autoBuy?: BotToggleState;
 }
 
-export const OneTimeCard: FC<OneTimeCardProps> = ({ name, description, cost, purchased, canAfford, onPurchase, icon }) => {
+export const OneTimeCard: FC<OneTimeCardProps> = ({ name, description, cost, purchased, canAfford, onPurchase, icon, autoBuy }) => {
   return (
     <div className={`upgrade-card ${purchased ? 'purchased' : ''} ${canAfford && !purchased ? 'affordable' : ''}`}>
       <div className="upgrade-header">
@@ -21,6 +26,7 @@ export const OneTimeCard: FC<OneTimeCardProps> = ({ name, description, cost, pur
       </div>
       <p className="upgrade-description">{description}</p>
       <div className="upgrade-footer">
+        {!purchased && autoBuy && <BotToggle name={name} {...autoBuy} />}
         {!purchased ? (
           <button
             className={`upgrade-button ${canAfford ? 'affordable' : 'unaffordable'}`}
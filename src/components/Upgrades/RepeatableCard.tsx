@@ -1,17 +1,24 @@
 import type { FC } from 'react';
 import '../Upgrades.scss';
-import { formatNumberAdaptive } from '../../utils/gameUtils';
+import { formatNumberAdaptive, formatTime } from '../../utils/gameUtils';
+import type { BigNumSource } from '../../utils/BigNum';
+import { BotToggle } from './BotToggle';
+import type { BotToggleState } from './BotToggle';
 
 interface RepeatableCardProps {
   title: string;
   level: number;
-  cost: number;
+  cost: BigNumSource;
   canAfford: boolean;
   onPurchase: () => boolean | void;
   description?: string;
+  /** Seconds until the next level is affordable at the current income (0 = now, Infinity = never) */
+  secondsToAfford?: number;
+  /** Upgrade Bot opt-in (shown once the bot is owned) */
+  autoBuy?: BotToggleState;
 }
 
-export const RepeatableCard: FC<RepeatableCardProps> = ({ title, level, cost, canAfford, onPurchase, description }) => {
+export const RepeatableCard: FC<RepeatableCardProps> = ({ title, level, cost, canAfford, onPurchase, description, secondsToAfford, autoBuy }) => {
   return (
     <div className={`upgrade-card repeatable ${canAfford ? 'affordable' : ''}`}>
       <div className="upgrade-header">
@@ -19,7 +26,11 @@ export const RepeatableCard: FC<RepeatableCardProps> = ({ title, level, cost, ca
         <span className="upgrade-level badge">Lvl {level}</span>
       </div>
       {description && <p className="upgrade-description">{description}</p>}
+      {secondsToAfford !== undefined && secondsToAfford > 0 && Number.isFinite(secondsToAfford) && (
+        <p className="upgrade-eta">Affordable in {formatTime(Math.ceil(secondsToAfford))}</p>
+      )}
       <div className="upgrade-footer">
+        {autoBuy && <BotToggle name={title} {...autoBuy} />}
         <button
           className={`upgrade-button ${canAfford ? 'affordable' : 'unaffordable'}`}
           onClick={onPurchase}
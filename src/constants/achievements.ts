@@ -0,0 +1,44 @@
+/**
+ * Achievement definitions: data-driven conditions evaluated by the engine each update.
+ * Each unlocked achievement adds its bonus to a global production multiplier.
+ */
+export type AchievementCondition =
+  | { type: 'resources'; amount: number }
+  | { type: 'producer'; producerId: string; quantity: number }
+  | { type: 'totalProducers'; quantity: number }
+  | { type: 'words'; amount: number }
+  | { type: 'challenges'; amount: number }
+  | { type: 'upgrade'; upgradeId: string }
+  /** One-time upgrades owned */
+  | { type: 'upgradeCount'; amount: number }
+  /** Every one-time upgrade on offer */
+  | { type: 'allUpgrades' };
+
+export interface AchievementDef {
+  id: string;
+  name: string;
+  description: string;
+  condition: AchievementCondition;
+  /** Production bonus granted when unlocked (0.01 = +1%) */
+  bonus: number;
+  /** Hidden achievements show as ??? until unlocked */
+  hidden?: boolean;
+}
+
+export const ACHIEVEMENTS: AchievementDef[] = [
+  { id: 'hello-world', name: 'Hello, World', description: 'Hold 100 resources', condition: { type: 'resources', amount: 100 }, bonus: 0.01 },
+  { id: 'ten-k', name: 'Side Project', description: 'Hold 10,000 resources', condition: { type: 'resources', amount: 10_000 }, bonus: 0.01 },
+  { id: 'one-m', name: 'Series A', description: 'Hold 1,000,000 resources', condition: { type: 'resources', amount: 1_000_000 }, bonus: 0.02 },
+  { id: 'first-script', name: 'Automate It', description: 'Own a Script Runner', condition: { type: 'producer', producerId: 'scriptRunner', quantity: 1 }, bonus: 0.01 },
+  { id: 'script-farm', name: 'Cron Job Farm', description: 'Own 25 Script Runners', condition: { type: 'producer', producerId: 'scriptRunner', quantity: 25 }, bonus: 0.02 },
+  { id: 'build-cluster', name: 'Build Cluster', description: 'Own 10 Build Servers', condition: { type: 'producer', producerId: 'buildServer', quantity: 10 }, bonus: 0.02 },
+  { id: 'green-pipeline', name: 'All Green', description: 'Own 10 CI Pipelines', condition: { type: 'producer', producerId: 'ciPipeline', quantity: 10 }, bonus: 0.02 },
+  { id: 'cloud-native', name: 'Cloud Native', description: 'Own a Cloud Orchestrator', condition: { type: 'producer', producerId: 'cloudOrchestrator', quantity: 1 }, bonus: 0.02 },
+  { id: 'infrastructure', name: 'Infrastructure as Code', description: 'Own 100 producers in total', condition: { type: 'totalProducers', quantity: 100 }, bonus: 0.03 },
+  { id: 'first-words', name: 'Touch Typist', description: 'Type 100 words', condition: { type: 'words', amount: 100 }, bonus: 0.01 },
+  { id: 'novelist', name: 'Documentation Writer', description: 'Type 1,000 words', condition: { type: 'words', amount: 1_000 }, bonus: 0.02 },
+  { id: 'first-challenge', name: 'Speed Run', description: 'Complete a mini challenge', condition: { type: 'challenges', amount: 1 }, bonus: 0.01 },
+  { id: 'challenge-master', name: '10x Engineer', description: 'Complete 10 mini challenges', condition: { type: 'challenges', amount: 10 }, bonus: 0.03, hidden: true },
+  { id: 'robots', name: 'Let the Robots Work', description: 'Purchase the Auto-Buy upgrade', condition: { type: 'upgrade', upgradeId: 'autoBuy' }, bonus: 0.01 },
+  { id: 'full-stack', name: 'Full Stack', description: 'Own every one-time upgrade', condition: { type: 'allUpgrades' }, bonus: 0.03, hidden: true },
+];
@@ -8,6 +8,15 @@ export const AUTO_SAVE_INTERVAL = 60000;
 /** LocalStorage key for game save data */
 export const SAVE_KEY = 'incrementalClickerSave';
 
+/** LocalStorage key holding the last save that failed to load, kept for recovery (other slots add their id) */
+export const SAVE_BACKUP_KEY = 'incrementalClickerSave_backup';
+
+/** LocalStorage key for the save slot index (slot names, metadata, active slot) */
+export const SAVE_SLOTS_KEY = 'incrementalClickerSlots';
+
+/** Current save schema version (bump together with a new entry in SAVE_MIGRATIONS) */
+export const SAVE_VERSION = 10;
+
 /** Base resources gained per manual click */
 export const BASE_CLICK_POWER = 1; // Will act as base for click and baseCharValue scaling later
 
@@ -17,6 +26,9 @@ export const SCIENTIFIC_NOTATION_THRESHOLD = 100000;
 /** Default cost multiplier for producers */
 export const DEFAULT_COST_MULTIPLIER = 1.16; // Slightly smoother ramp for new theme
 
+/** Producer buy-quantity options; 'max' buys as many as are affordable */
+export const BUY_QUANTITIES = [1, 10, 100, 'max'] as const;
+
 /** Game update rate (60 fps) */
 export const GAME_UPDATE_FPS = 10;
 
@@ -40,72 +52,110 @@ export const TYPING_CONFIG = {
   wordsPerChallenge: 30,
   /** Base challenge reward multiplier (challengeReward = snippetLength * baseCharValue * challengeRewardMultiplier) */
   challengeRewardMultiplier: 5,
+  /** Commits earned per completed word */
+  commitsPerWord: 1,
+  /** Commits earned per completed challenge */
+  commitsPerChallenge: 10,
+  /** Seconds of typing the rolling WPM is measured over (a word is 5 characters) */
+  wpmWindowSeconds: 15,
+  /** A pause longer than this ends the typing session */
+  sessionIdleSeconds: 30,
+  /** Finished typing sessions kept in the save */
+  sessionHistorySize: 10,
+  /** Rolling WPM that counts as being in flow */
+  flowWpm: 40,
+  /** Seconds the WPM must stay at flowWpm before the flow bonus starts */
+  flowSeconds: 10,
+  /** Global production multiplier while in flow */
+  flowMultiplier: 1.1,
+} as const;
+
+/**
+ * Currencies. Resources are the main currency: clicks and most producers make them and every cost uses them.
+ * The others come from typing and from producers that declare `produces`, and are spent on producers'
+ * `extraCosts` alongside resources.
+ */
+export const CURRENCIES = {
+  resources: { name: 'Resources', icon: '💾' },
+  commits: { name: 'Commits', icon: '📝' },
+  coffee: { name: 'Coffee', icon: '☕' },
+  techDebt: { name: 'Tech Debt', icon: '🧱' },
+} as const;
+
+/**
+ * Ids of one-time upgrades that unlock engine features.
+ * Names, descriptions and costs live in src/content/upgrades.json.
+ */
+export const UPGRADE_IDS = {
+  TYPING: 'typing',
+  AUTO_BUY: 'autoBuy',
+  CHALLENGES: 'challenges',
+  UPGRADE_BOT: 'upgradeBot',
+} as const;
+
+/** Ids of repeatable upgrades wired to engine effects (costs live in src/content/upgrades.json) */
+export const REPEATABLE_IDS = {
+  CLICK_POWER: 'clickPower',
+  AUTO_BUY_SPEED: 'autoBuySpeed',
+} as const;
+
+/**
+ * Prestige ("Ship to Production") configuration
+ * releasePoints = floor(sqrt(runEarnings / pointDivisor)), only once runEarnings >= minRunEarnings
+ * (capped at Number.MAX_SAFE_INTEGER so points stay finite and exact)
+ */
+export const PRESTIGE_CONFIG = {
+  /** Resources that must be earned in the current run before shipping is allowed */
+  minRunEarnings: 1_000_000,
+  /** Divisor applied to run earnings before the square root */
+  pointDivisor: 1_000_000,
+  /** Global production bonus granted per Release Point (0.02 = +2%) */
+  multiplierPerPoint: 0.02,
+} as const;
+
+/**
+ * Offline progress configuration
+ * Gaps of minSeconds or more found on load or when a backgrounded tab resumes are credited as offline time
+ */
+export const OFFLINE_CONFIG = {
+  /** Shorter gaps are left to the next frame as regular play time */
+  minSeconds: 60,
+  /** Maximum offline duration credited (8 hours) */
+  maxSeconds: 8 * 60 * 60,
+  /** Base fraction of normal production earned while away */
+  baseEfficiency: 0.5,
+  /** Simulate auto-buy purchases during the gap when auto-buy is on */
+  simulateAutoBuy: true,
 } as const;
 
 /**
- * Producer tier definitions (dev/infrastructure hybrid theme)
- * id changes are intentional; previous saves invalidated (user confirmed reset)
- *
- * Balancing philosophy:
- * - Each tier unlocks at 5x the unlock of the previous tier
- * - Each tier costs 5x more than the previous tier base cost
- * - Production rates scale to keep pace with exponential growth
+ * Production history resolutions, finest first.
+ * Each tier keeps the latest `capacity` samples taken every `intervalSeconds`;
+ * only `persist` tiers are written to the save (the per-second tier is rebuilt quickly).
  */
-export const PRODUCER_TIERS = {
-  SCRIPT_RUNNER: {
-    id: 'scriptRunner',
-    name: 'Script Runner',
-    description: 'Automates simple tasks; runs helper scripts (1 res/sec)',
-    baseCost: 120,
-    productionRate: 1,
-    unlockThreshold: 100, // Unlock at 100 resources
-  },
-  BUILD_SERVER: {
-    id: 'buildServer',
-    name: 'Build Server',
-    description: 'Compiles and bundles projects continuously (8 res/sec)',
-    baseCost: 600, // 5x script runner base (120 * 5)
-    productionRate: 8,
-    unlockThreshold: 500, // 5x script runner unlock (100 * 5)
-  },
-  CI_PIPELINE: {
-    id: 'ciPipeline',
-    name: 'CI Pipeline',
-    description: 'Runs tests & deployments automatically (50 res/sec)',
-    baseCost: 3000, // 5x build server base (600 * 5)
-    productionRate: 50,
-    unlockThreshold: 2500, // 5x build server unlock (500 * 5)
-  },
-  CLOUD_ORCHESTRATOR: {
-    id: 'cloudOrchestrator',
-    name: 'Cloud Orchestrator',
-    description: 'Scales microservices seamlessly (400 res/sec)',
-    baseCost: 15000, // 5x CI pipeline base (3000 * 5)
-    productionRate: 400,
-    unlockThreshold: 12500, // 5x CI pipeline unlock (2500 * 5)
-  },
+export const HISTORY_CONFIG = {
+  tiers: [
+    { id: 'seconds', label: 'Last 5 minutes', intervalSeconds: 1, capacity: 300, persist: false },
+    { id: 'minutes', label: 'Last 6 hours', intervalSeconds: 60, capacity: 360, persist: true },
+    { id: 'hours', label: 'Last 7 days', intervalSeconds: 3600, capacity: 168, persist: true },
+  ],
+  /** Unlock/purchase markers kept for the chart */
+  maxMarkers: 100,
+  /** Significant digits kept for saved sample values */
+  savedPrecision: 4,
 } as const;
 
 /**
- * One-time purchasable upgrades
+ * Goal planner search limits (see GoalPlanner)
+ * The beam keeps the most promising purchase sequences at each step; deeper plans are cut off.
  */
-export const UPGRADES = {
-  TYPING: {
-    id: 'typing',
-    name: 'Typing Mechanic',
-    description: 'Unlock the ability to type code instead of clicking. Earn bonuses for words and streaks!',
-    cost: 3000,
-  },
-  AUTO_BUY: {
-    id: 'autoBuy',
-    name: 'Auto-Buy',
-    description: 'Automatically purchase producers when you can afford them',
-    cost: 5000,
-  },
-  CHALLENGES: {
-    id: 'challenges',
-    name: 'Code Challenges',
-    description: 'Unlock mini typing challenges that appear every 10 words for massive bonuses!',
-    cost: 20000,
-  },
+export const PLANNER_CONFIG = {
+  /** Purchase sequences kept after each step */
+  beamWidth: 6,
+  /** Longest plan considered, in producer purchases */
+  maxPurchases: 300,
+  /** Milliseconds a plan is reused before it is recomputed */
+  refreshMs: 5000,
+  /** Minimum milliseconds between replans after production changed (planning is expensive) */
+  staleRefreshMs: 1000,
 } as const;
@@ -0,0 +1,65 @@
+/**
+ * Random incident definitions: short-lived events the engine schedules at random intervals.
+ * - mergedPr: a bonus the player must click before it disappears
+ * - prodOutage: halves one owned producer until the player types a fix command (or it times out)
+ * - hackathon: multiplies all production for a short frenzy
+ */
+
+interface IncidentBase {
+  id: string;
+  name: string;
+  description: string;
+  /** Relative chance of being picked among eligible incidents */
+  weight: number;
+  /** Seconds before the incident ends on its own */
+  durationSeconds: number;
+}
+
+export type IncidentDef =
+  | IncidentBase & {
+    kind: 'mergedPr';
+    /** Reward equals this many seconds of current production */
+    rewardSeconds: number;
+    /** Reward floor so the bonus is worth clicking early on */
+    minReward: number;
+  }
+  | IncidentBase & {
+    kind: 'prodOutage';
+    /** Output multiplier applied to the affected producer */
+    factor: number;
+    /** One of these is shown; typing it exactly resolves the outage */
+    fixCommands: string[];
+  }
+  | IncidentBase & {
+    kind: 'hackathon';
+    /** Multiplier applied to all production */
+    factor: number;
+  };
+
+export type IncidentKind = IncidentDef['kind'];
+
+export const INCIDENTS: IncidentDef[] = [
+  {
+    id: 'merged-pr', kind: 'mergedPr', name: 'Merged PR',
+    description: 'A teammate merged your PR! Click to collect the bonus before it scrolls away.',
+    weight: 5, durationSeconds: 12, rewardSeconds: 30, minReward: 50,
+  },
+  {
+    id: 'prod-outage', kind: 'prodOutage', name: 'Prod Outage',
+    description: 'Something broke in production. Type the fix command to restore full output.',
+    weight: 2, durationSeconds: 300, factor: 0.5,
+    fixCommands: ['git revert HEAD', 'kubectl rollout undo', 'npm run hotfix', 'systemctl restart api'],
+  },
+  {
+    id: 'hackathon', kind: 'hackathon', name: 'Hackathon',
+    description: 'Pizza, energy drinks and no sleep: all production is tripled.',
+    weight: 2, durationSeconds: 30, factor: 3,
+  },
+];
+
+/** Scheduling of random incidents */
+export const INCIDENT_CONFIG = {
+  /** Seconds between incidents are drawn uniformly from this range (divided by the frequency option) */
+  minIntervalSeconds: 120,
+  maxIntervalSeconds: 360,
+} as const;
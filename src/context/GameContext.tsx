@@ -6,18 +6,159 @@
 import { createContext, useEffect, useState, useRef, useCallback } from 'react';
 import type { ReactNode } from 'react';
 import { GameEngine } from '../game/GameEngine';
-import type { ProducerTier } from '../game/GameEngine';
-import { SAVE_KEY, AUTO_SAVE_INTERVAL } from '../constants/gameConstants';
+import type { BuyQuantity, OfflineReport, ProducerTier, ProductionBreakdown, ProductionHistorySnapshot } from '../game/GameEngine';
+import { AUTO_SAVE_INTERVAL } from '../constants/gameConstants';
+import { SaveValidationError } from '../game/save/saveSchema';
+import { decodeSave, encodeSave } from '../game/save/saveCodec';
+import { SaveSlotStore } from '../game/save/SaveSlotStore';
+import type { SaveSlot } from '../game/save/SaveSlotStore';
 import { GAME_UPDATE_FPS } from '../constants/gameConstants';
+import type { BigNum, BigNumSource } from '../utils/BigNum';
+import type { EarningSource } from '../game/stats/StatsTracker';
+import type { HistoryTierId } from '../game/history/ProductionHistory';
+import type { IncidentKind } from '../constants/incidents';
+import type { AutoBuyStrategyId } from '../game/autobuy/autoBuyStrategies';
+import type { PlanStep, PlannerGoal } from '../game/planner/GoalPlanner';
+import type { CurrencyAmounts, CurrencyId } from '../game/currencies/Wallet';
+import type { ResearchStatus } from '../game/research/ResearchManager';
+import type { SavedTypingSession, TypingCounts } from '../types/game.types';
 
 /**
  * Extended producer information with computed properties for UI
  */
 interface ProducerInfo extends ProducerTier {
-  cost: number;
+  cost: BigNum;
+  /** Commits, Coffee or Tech Debt the next unit also costs */
+  extraCost: CurrencyAmounts;
   canAfford: boolean;
   unlocked: boolean; // whether producer is visible (unlockThreshold met)
   unlockThreshold?: number; // resources needed to unlock (optional)
+  /** Units the selected buy quantity resolves to */
+  bulkCount: number;
+  /** Total cost of buying bulkCount units */
+  bulkCost: BigNum;
+  /** Secondary currency part of the bulk cost */
+  bulkExtraCost: CurrencyAmounts;
+  canAffordBulk: boolean;
+  /** Production per second of one unit after producer upgrades and global multipliers */
+  effectiveRate: number;
+  /** Production per second gained by buying bulkCount units (including synergy boosts to other producers) */
+  bulkProductionGain: BigNum;
+  /** Synergy bonuses this producer receives from, and grants to, other producers */
+  synergy: {
+    boostedBy: Array<{ sourceName: string; upgradeName: string; bonus: number }>;
+    boosts: Array<{ targetName: string; upgradeName: string; bonusPerUnit: number }>;
+  };
+}
+
+/**
+ * Lifetime statistics shown in the Stats tab
+ */
+export interface GameStats {
+  lifetimeEarned: BigNum;
+  earnedBySource: Array<{ source: EarningSource; amount: BigNum }>;
+  earnedByProducer: Array<{ producerId: string; name: string; amount: BigNum }>;
+  totalClicks: number;
+  playTimeSeconds: number;
+  sessionCount: number;
+  peakProductionRate: BigNum;
+}
+
+/**
+ * Random incident currently in effect
+ */
+export interface ActiveIncidentInfo {
+  id: string;
+  kind: IncidentKind;
+  name: string;
+  description: string;
+  secondsRemaining: number;
+  durationSeconds: number;
+  /** Production multiplier (hackathon: all producers, prodOutage: producerName only) */
+  factor: number;
+  /** Producer slowed down by an outage */
+  producerName: string | null;
+  /** Command that fixes an outage and how many of its characters have been typed */
+  fixCommand: string | null;
+  fixProgress: number;
+  /** Resources a Merged PR pays when clicked */
+  reward: BigNum | null;
+}
+
+/**
+ * Goal being planned for and its purchase plan (times are seconds from now)
+ */
+export interface GoalInfo {
+  goal: PlannerGoal;
+  /** Producer or upgrade name for unlock and upgrade goals */
+  targetName: string | null;
+  /** Whether auto-buy follows the plan */
+  following: boolean;
+  steps: PlanStep[];
+  /** Infinity when production alone cannot reach the goal */
+  etaSeconds: number;
+  /** ETA without buying anything */
+  waitOnlySeconds: number;
+}
+
+/**
+ * A typing session with its average speed and challenge accuracy
+ */
+export interface TypingSessionInfo extends SavedTypingSession {
+  averageWpm: number;
+  /** Share of challenge characters typed correctly (null without challenge typing) */
+  accuracy: number | null;
+}
+
+/**
+ * Typing speed, accuracy and session history
+ */
+export interface TypingMetrics {
+  /** Rolling words per minute (5 characters per word) */
+  wpm: number;
+  /** Whether the flow production bonus applies */
+  inFlow: boolean;
+  /** Session in progress (null after a pause) */
+  session: TypingSessionInfo | null;
+  /** Finished sessions, newest first */
+  recentSessions: TypingSessionInfo[];
+  lifetime: TypingCounts & { peakWpm: number; accuracy: number | null };
+}
+
+/**
+ * Research tree node with its status and progress
+ */
+export interface ResearchNodeInfo {
+  id: string;
+  name: string;
+  description: string;
+  /** Ids of the nodes that must be finished first */
+  requires: string[];
+  exclusiveGroup: string | null;
+  researchSeconds: number;
+  status: ResearchStatus;
+  cost: BigNum;
+  extraCost: CurrencyAmounts;
+  /** Whether the node can be started and paid for right now */
+  canAfford: boolean;
+  /** Seconds left while researching, otherwise null */
+  secondsRemaining: number | null;
+  /** 0 to 1 */
+  progress: number;
+  /** Effect labels, e.g. "Build Server ×1.25" */
+  effects: string[];
+}
+
+/**
+ * A currency with its balance and production rate
+ */
+export interface CurrencyInfo {
+  id: CurrencyId;
+  name: string;
+  icon: string;
+  amount: BigNum;
+  /** Production per second */
+  rate: BigNum;
 }
 
 /**
@@ -25,9 +166,11 @@ interface ProducerInfo extends ProducerTier {
  */
 export interface GameContextType {
   /** Current resource count */
-  resources: number;
+  resources: BigNum;
   /** Current production rate (resources per second) */
-  productionRate: number;
+  productionRate: BigNum;
+  /** Resources followed by every secondary currency the player holds, makes or needs */
+  currencies: CurrencyInfo[];
   /** List of all producers with computed properties */
   producers: ProducerInfo[];
   /** ID of the producer with the best base value (cost/production ratio) */
@@ -37,17 +180,33 @@ export interface GameContextType {
   /** Current auto-buy speed upgrade level */
   autoBuySpeedLevel: number;
   /** Cost of next auto-buy speed upgrade */
-  autoBuySpeedUpgradeCost: number;
+  autoBuySpeedUpgradeCost: BigNum;
   /** Whether player can afford the next speed upgrade */
   canAffordAutoBuySpeedUpgrade: boolean;
   /** Current auto-buy interval in seconds */
   autoBuyInterval: number;
   /** Time remaining until next auto-buy (in seconds) */
   timeUntilNextAutoBuy: number;
+  /** How the auto-buyer picks producers */
+  autoBuyStrategy: AutoBuyStrategyId;
+  /** Per-producer auto-buy rules (enabled, max owned, reserve) */
+  autoBuyRules: Array<{ producerId: string; name: string; unlocked: boolean; quantity: number; enabled: boolean; maxOwned: number | null; reserve: BigNum }>;
+  setAutoBuyStrategy: (strategy: AutoBuyStrategyId) => void;
+  /** Change some fields of a producer's rule; returns false for invalid values */
+  setAutoBuyRule: (producerId: string, rule: { enabled?: boolean; maxOwned?: number | null; reserve?: BigNumSource }) => boolean;
+  /** Whether the Upgrade Bot has been purchased */
+  upgradeBotUnlocked: boolean;
+  /** Upgrade ids the Upgrade Bot may buy */
+  autoBuyUpgrades: string[];
+  /** Opt an upgrade in or out of Upgrade Bot purchases; returns false for unknown ids */
+  setUpgradeAutoBuy: (upgradeId: string, enabled: boolean) => boolean;
   /** Handle manual click action */
   click: () => void;
-  /** Attempt to purchase a producer */
+  /** Attempt to purchase a producer (buys the selected buy quantity) */
   purchaseProducer: (producerId: string) => boolean;
+  /** Selected producer buy quantity (x1 / x10 / x100 / max) */
+  buyQuantity: BuyQuantity;
+  setBuyQuantity: (quantity: BuyQuantity) => void;
   /** Toggle auto-buy on/off */
   toggleAutoBuy: () => void;
   /** Purchase auto-buy speed upgrade */
@@ -60,6 +219,8 @@ export interface GameContextType {
   streakWords: number;
   /** Typing: current streak multiplier */
   currentStreakMultiplier: number;
+  /** Typing: WPM, challenge accuracy, rejected characters and sessions */
+  typingMetrics: TypingMetrics;
   /** Record a typed character */
   typeChar: (char: string) => void;
   /** Whether typing feature is unlocked */
@@ -84,15 +245,118 @@ export interface GameContextType {
   upgrades: Array<{ id: string; name: string; description: string; cost: number; purchased: boolean; canAfford: boolean }>;
   /** Purchase an upgrade */
   purchaseUpgrade: (upgradeId: string) => boolean;
+  /** Upgrades tied to a single producer tier, unlocked by owning enough of it */
+  producerUpgrades: Array<{ id: string; name: string; description: string; producerId: string; producerName: string; requiredOwned: number; cost: number; unlocked: boolean; purchased: boolean; canAfford: boolean }>;
+  purchaseProducerUpgrade: (upgradeId: string) => boolean;
   /** Click power repeatable upgrade data */
   clickPowerLevel: number;
-  clickValue: number;
-  clickPowerUpgradeCost: number;
+  clickValue: BigNum;
+  clickPowerUpgradeCost: BigNum;
   canAffordClickPowerUpgrade: boolean;
   /** Purchase repeatable click power upgrade */
   purchaseClickPowerUpgrade: () => boolean;
   /** Whether cheat combo (A+T) is currently held */
   cheatActive: boolean;
+  /** Prestige: resources earned during the current run */
+  runEarnings: BigNum;
+  /** Prestige: persistent Release Points owned */
+  releasePoints: number;
+  /** Prestige: number of times the player has shipped to production */
+  totalReleases: number;
+  /** Prestige: global production multiplier from Release Points */
+  prestigeMultiplier: number;
+  /** Prestige: Release Points a reset would grant right now */
+  pendingReleasePoints: number;
+  /** Prestige: whether shipping to production would grant any points */
+  canShipToProduction: boolean;
+  /** Convert run earnings into Release Points and restart the run; returns points granted */
+  shipToProduction: () => number;
+  /** Achievements with unlock status */
+  achievements: Array<{ id: string; name: string; description: string; bonus: number; hidden: boolean; unlocked: boolean }>;
+  /** Global production multiplier from unlocked achievements */
+  achievementMultiplier: number;
+  /** Save that failed to load, awaiting a recovery decision (auto-save is paused meanwhile) */
+  saveRecovery: SaveRecoveryInfo | null;
+  /** Load the failed save with invalid fields replaced by defaults */
+  repairSave: () => boolean;
+  /** Start a new game; the failed save stays in the backup slot */
+  discardBrokenSave: () => void;
+  /** Encode the current game as a portable save string */
+  exportSave: () => string;
+  /** Decode and validate a save string without applying it */
+  previewImport: (code: string) => SaveImportResult;
+  /** Replace the current game with an exported save string */
+  importSave: (code: string) => boolean;
+  /** Named save slots with metadata */
+  saveSlots: SaveSlot[];
+  /** Id of the slot currently being played */
+  activeSlotId: string;
+  /** Create an empty slot; returns its id */
+  createSlot: (name: string) => string;
+  /** Rename a slot */
+  renameSlot: (slotId: string, name: string) => boolean;
+  /** Copy a slot (including its save) into a new slot */
+  duplicateSlot: (slotId: string) => boolean;
+  /** Delete an inactive slot */
+  deleteSlot: (slotId: string) => boolean;
+  /** Save the current slot and load another one in place */
+  switchSlot: (slotId: string) => void;
+  /** Progress credited while away, until dismissed */
+  offlineReport: OfflineReport | null;
+  /** Close the "while you were away" report */
+  dismissOfflineReport: () => void;
+  /** Lifetime statistics (earnings by source, clicks, play time, sessions, peak rate) */
+  stats: GameStats;
+  /** Resource and production history at one resolution (read on demand, not part of the frame state) */
+  getProductionHistory: (tier: HistoryTierId) => ProductionHistorySnapshot;
+  /** Every term of the production rate (read on demand for the "Per Second" tooltip) */
+  getProductionBreakdown: () => ProductionBreakdown;
+  /** Random incidents in effect (Merged PR, Prod Outage, Hackathon) */
+  incidents: ActiveIncidentInfo[];
+  /** Collect a clickable incident's reward; returns the amount awarded (0 if it already expired) */
+  claimIncident: (incidentId: string) => BigNum;
+  /** Goal planner target and plan (null when no goal is set) */
+  goal: GoalInfo | null;
+  /** Plan towards a goal (null clears it); returns false if it is unknown or already done */
+  setGoal: (goal: PlannerGoal | null, follow?: boolean) => boolean;
+  /** Start or stop auto-buy following the plan */
+  setGoalFollow: (follow: boolean) => void;
+  /** Research tree nodes in content order (prerequisites come first) */
+  research: ResearchNodeInfo[];
+  /** Node being researched (null when idle) */
+  activeResearchId: string | null;
+  /** Pay for and start researching a node; returns false if it is unavailable or unaffordable */
+  startResearch: (researchId: string) => boolean;
+  /** Subscribe to engine events (purchases, unlocks, challenges...); returns an unsubscribe function */
+  onGameEvent: GameEngine['on'];
+}
+
+/**
+ * Summary of an import candidate shown before it overwrites the current game
+ */
+export interface SaveImportPreview {
+  resources: BigNum;
+  productionRate: BigNum;
+  releasePoints: number;
+  lastUpdate: number;
+  producers: Array<{ name: string; quantity: number }>;
+  upgrades: string[];
+}
+
+export type SaveImportResult =
+  | { ok: true; preview: SaveImportPreview }
+  | { ok: false; issues: string[] };
+
+/**
+ * Details about a save that could not be loaded
+ */
+export interface SaveRecoveryInfo {
+  /** Raw save string as found in storage */
+  raw: string;
+  /** Problems reported by validation */
+  issues: string[];
+  /** Whether a repaired load can be attempted (false when the JSON itself is unreadable) */
+  repairable: boolean;
 }
 
 const GameContext = createContext<GameContextType | null>(null);
@@ -115,22 +379,70 @@ export const GameProvider: React.FC<GameProviderProps> = ({ children }) => {
   const [gameState, setGameState] = useState(() => gameEngine.getState());
   const animationFrameRef = useRef<number | undefined>(undefined);
   const [cheatActive, setCheatActive] = useState(false);
+  const [saveRecovery, setSaveRecovery] = useState<SaveRecoveryInfo | null>(null);
+  const saveRecoveryRef = useRef<SaveRecoveryInfo | null>(null);
+  const [slotStore] = useState(() => new SaveSlotStore());
+  const [saveSlots, setSaveSlots] = useState(() => slotStore.list());
+  const [activeSlotId, setActiveSlotId] = useState(() => slotStore.getActiveId());
+
+  /**
+   * Write the engine state to the active slot along with its list metadata
+   * Skipped while a broken save awaits recovery, so it is never overwritten
+   * before the player decides what to do with it.
+   */
+  const persist = useCallback(() => {
+    if (saveRecoveryRef.current) return;
+    const engine = gameEngineRef.current;
+    const highest = [...engine.producers].reverse().find(p => p.id !== 'codingSession' && p.quantity > 0);
+    slotStore.write(slotStore.getActiveId(), JSON.stringify(engine.save()), {
+      lastPlayed: Date.now(),
+      resources: engine.resources.toString(),
+      highestProducer: highest?.name ?? null,
+    });
+    setSaveSlots(slotStore.list());
+  }, [slotStore]);
+
+  /**
+   * Load the active slot into the engine (an empty slot starts a new game)
+   * A save that fails to parse or validate is copied to the slot's backup and
+   * surfaced for recovery instead of being overwritten by the next auto-save.
+   * The engine is reset first so state from a previously active slot cannot
+   * carry over into this one.
+   */
+  const loadActiveSlot = useCallback(() => {
+    const slotId = slotStore.getActiveId();
+    const savedGame = slotStore.read(slotId);
+    if (!savedGame) {
+      gameEngineRef.current.reset();
+      gameEngineRef.current.beginSession();
+      setGameState(gameEngineRef.current.getState());
+      return;
+    }
+    try {
+      const saveData = JSON.parse(savedGame);
+      gameEngineRef.current.load(saveData);
+      gameEngineRef.current.resume();
+      gameEngineRef.current.beginSession();
+      setGameState(gameEngineRef.current.getState());
+    } catch (error) {
+      console.error('Failed to load save:', error);
+      slotStore.backup(slotId, savedGame);
+      gameEngineRef.current.reset();
+      setGameState(gameEngineRef.current.getState());
+      const info: SaveRecoveryInfo = error instanceof SaveValidationError
+        ? { raw: savedGame, issues: error.issues, repairable: true }
+        : { raw: savedGame, issues: ['Save data is not valid JSON'], repairable: false };
+      saveRecoveryRef.current = info;
+      setSaveRecovery(info);
+    }
+  }, [slotStore]);
 
   /**
    * Load saved game on mount
    */
   useEffect(() => {
-    const savedGame = localStorage.getItem(SAVE_KEY);
-    if (savedGame) {
-      try {
-        const saveData = JSON.parse(savedGame);
-        gameEngineRef.current.load(saveData);
-        setGameState(gameEngineRef.current.getState());
-      } catch (error) {
-        console.error('Failed to load save:', error);
-      }
-    }
-  }, []);
+    loadActiveSlot();
+  }, [loadActiveSlot]);
 
   /**
    * Game loop using fixed update rate from config
@@ -163,17 +475,28 @@ export const GameProvider: React.FC<GameProviderProps> = ({ children }) => {
     };
   }, []);
 
+  /**
+   * Credit time spent in a background tab (where animation frames stop) as offline progress
+   */
+  useEffect(() => {
+    const handleVisibilityChange = () => {
+      if (document.visibilityState !== 'visible') return;
+      gameEngineRef.current.resume();
+      setGameState(gameEngineRef.current.getState());
+    };
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+
+    return () => document.removeEventListener('visibilitychange', handleVisibilityChange);
+  }, []);
+
   /**
    * Auto-save to localStorage on a fixed interval
    */
   useEffect(() => {
-    const saveInterval = setInterval(() => {
-      const saveData = gameEngineRef.current.save();
-      localStorage.setItem(SAVE_KEY, JSON.stringify(saveData));
-    }, AUTO_SAVE_INTERVAL);
+    const saveInterval = setInterval(persist, AUTO_SAVE_INTERVAL);
 
     return () => clearInterval(saveInterval);
-  }, []);
+  }, [persist]);
 
   /**
    * Handle manual click action
@@ -192,13 +515,22 @@ export const GameProvider: React.FC<GameProviderProps> = ({ children }) => {
    */
   const purchaseProducer: (producerId: string) => boolean = useCallback((producerId: string) => {
     if (!gameEngineRef.current) return false;
-    const success = gameEngineRef.current.purchaseProducer(producerId);
+    const engine = gameEngineRef.current;
+    const success = engine.purchaseProducer(producerId, engine.getBuyCount(producerId));
     if (success) {
-      setGameState(gameEngineRef.current.getState());
+      setGameState(engine.getState());
     }
     return success;
   }, []);
 
+  /**
+   * Change how many producers a Buy click purchases
+   */
+  const setBuyQuantity = useCallback((quantity: BuyQuantity) => {
+    gameEngineRef.current.setBuyQuantity(quantity);
+    setGameState(gameEngineRef.current.getState());
+  }, []);
+
   /**
    * Reset game progress with confirmation dialog
    */
@@ -206,9 +538,21 @@ export const GameProvider: React.FC<GameProviderProps> = ({ children }) => {
     if (!gameEngineRef.current) return;
     if (window.confirm('Are you sure you want to reset all progress? This cannot be undone!')) {
       gameEngineRef.current.reset();
-      localStorage.removeItem(SAVE_KEY);
+      slotStore.clear(slotStore.getActiveId());
+      setSaveSlots(slotStore.list());
+      setGameState(gameEngineRef.current.getState());
+    }
+  }, [slotStore]);
+
+  /**
+   * Purchase a producer upgrade
+   */
+  const purchaseProducerUpgrade: (upgradeId: string) => boolean = useCallback((upgradeId: string) => {
+    const success = gameEngineRef.current.purchaseProducerUpgrade(upgradeId);
+    if (success) {
       setGameState(gameEngineRef.current.getState());
     }
+    return success;
   }, []);
 
   /**
@@ -232,6 +576,26 @@ export const GameProvider: React.FC<GameProviderProps> = ({ children }) => {
     setGameState(gameEngineRef.current.getState());
   }, []);
 
+  /** Choose the auto-buy strategy */
+  const setAutoBuyStrategy = useCallback((strategy: AutoBuyStrategyId) => {
+    gameEngineRef.current.setAutoBuyStrategy(strategy);
+    setGameState(gameEngineRef.current.getState());
+  }, []);
+
+  /** Update a producer's auto-buy rule */
+  const setAutoBuyRule: GameContextType['setAutoBuyRule'] = useCallback((producerId, rule) => {
+    const success = gameEngineRef.current.setAutoBuyRule(producerId, rule);
+    setGameState(gameEngineRef.current.getState());
+    return success;
+  }, []);
+
+  /** Opt an upgrade in or out of Upgrade Bot purchases */
+  const setUpgradeAutoBuy = useCallback((upgradeId: string, enabled: boolean) => {
+    const success = gameEngineRef.current.setUpgradeAutoBuy(upgradeId, enabled);
+    setGameState(gameEngineRef.current.getState());
+    return success;
+  }, []);
+
   /**
    * Purchase auto-buy speed upgrade
    */
@@ -278,9 +642,203 @@ export const GameProvider: React.FC<GameProviderProps> = ({ children }) => {
     return success;
   }, []);
 
+  /**
+   * Ship to Production (prestige reset)
+   * Confirmation is handled by GameControls; the new state is saved immediately
+   */
+  const shipToProduction: () => number = useCallback(() => {
+    if (!gameEngineRef.current) return 0;
+    const points = gameEngineRef.current.shipToProduction();
+    if (points > 0) {
+      persist();
+      setGameState(gameEngineRef.current.getState());
+    }
+    return points;
+  }, [persist]);
+
+  /** Clear the pending recovery, start a session on the loaded state and persist it */
+  const finishRecovery = useCallback(() => {
+    saveRecoveryRef.current = null;
+    setSaveRecovery(null);
+    gameEngineRef.current.beginSession();
+    persist();
+    setGameState(gameEngineRef.current.getState());
+  }, [persist]);
+
+  /**
+   * Load the broken save with invalid fields replaced by defaults
+   * @returns True if the repaired save was loaded
+   */
+  const repairSave: () => boolean = useCallback(() => {
+    const info = saveRecoveryRef.current;
+    if (!info || !info.repairable) return false;
+    try {
+      gameEngineRef.current.load(JSON.parse(info.raw), { repair: true });
+      gameEngineRef.current.resume();
+    } catch (error) {
+      console.error('Failed to repair save:', error);
+      return false;
+    }
+    finishRecovery();
+    return true;
+  }, [finishRecovery]);
+
+  /**
+   * Start fresh; the broken save remains in the slot's backup
+   */
+  const discardBrokenSave: () => void = useCallback(() => {
+    gameEngineRef.current.reset();
+    finishRecovery();
+  }, [finishRecovery]);
+
+  /**
+   * Encode the current game state as a portable save string
+   */
+  const exportSave: () => string = useCallback(() => {
+    return encodeSave(gameEngineRef.current.save());
+  }, []);
+
+  /**
+   * Validate a save string by loading it into a scratch engine
+   * The running game is untouched
+   */
+  const previewImport: (code: string) => SaveImportResult = useCallback((code: string): SaveImportResult => {
+    try {
+      const scratch = new GameEngine();
+      scratch.load(decodeSave(code));
+      const state = scratch.getState();
+      return {
+        ok: true,
+        preview: {
+          resources: state.resources,
+          productionRate: state.productionRate,
+          releasePoints: state.releasePoints,
+          lastUpdate: scratch.save().lastUpdate,
+          producers: state.producers.filter(p => p.quantity > 0).map(p => ({ name: p.name, quantity: p.quantity })),
+          upgrades: state.upgrades.filter(u => u.purchased).map(u => u.name),
+        },
+      };
+    } catch (error) {
+      return { ok: false, issues: error instanceof SaveValidationError ? error.issues : [String(error)] };
+    }
+  }, []);
+
+  /**
+   * Overwrite the current game with an exported save string and persist it
+   * @returns True if the save was valid and applied
+   */
+  const importSave: (code: string) => boolean = useCallback((code: string) => {
+    try {
+      gameEngineRef.current.load(decodeSave(code));
+      gameEngineRef.current.resume();
+    } catch (error) {
+      console.error('Failed to import save:', error);
+      return false;
+    }
+    // An imported save also resolves any pending recovery
+    finishRecovery();
+    return true;
+  }, [finishRecovery]);
+
+  /** Refresh slot list state after a store change */
+  const syncSlots = useCallback(() => {
+    setSaveSlots(slotStore.list());
+    setActiveSlotId(slotStore.getActiveId());
+  }, [slotStore]);
+
+  const createSlot: (name: string) => string = useCallback((name: string) => {
+    const slot = slotStore.create(name);
+    syncSlots();
+    return slot.id;
+  }, [slotStore, syncSlots]);
+
+  const renameSlot: (slotId: string, name: string) => boolean = useCallback((slotId: string, name: string) => {
+    const success = slotStore.rename(slotId, name);
+    syncSlots();
+    return success;
+  }, [slotStore, syncSlots]);
+
+  /**
+   * Duplicate a slot; the active slot is saved first so the copy is current
+   */
+  const duplicateSlot: (slotId: string) => boolean = useCallback((slotId: string) => {
+    if (slotId === slotStore.getActiveId()) persist();
+    const copy = slotStore.duplicate(slotId);
+    syncSlots();
+    return copy !== null;
+  }, [slotStore, syncSlots, persist]);
+
+  const deleteSlot: (slotId: string) => boolean = useCallback((slotId: string) => {
+    const success = slotStore.delete(slotId);
+    syncSlots();
+    return success;
+  }, [slotStore, syncSlots]);
+
+  /**
+   * Save the current slot, then swap the engine to another slot without reloading the page
+   */
+  const switchSlot: (slotId: string) => void = useCallback((slotId: string) => {
+    if (slotId === slotStore.getActiveId() || !slotStore.has(slotId)) return;
+    persist();
+    saveRecoveryRef.current = null;
+    setSaveRecovery(null);
+    slotStore.setActive(slotId);
+    syncSlots();
+    loadActiveSlot();
+  }, [slotStore, syncSlots, persist, loadActiveSlot]);
+
+  /** Close the offline progress report */
+  const dismissOfflineReport: () => void = useCallback(() => {
+    gameEngineRef.current.dismissOfflineReport();
+    setGameState(gameEngineRef.current.getState());
+  }, []);
+
+  /** Read the engine's production history */
+  const getProductionHistory = useCallback((tier: HistoryTierId) => {
+    return gameEngineRef.current.getProductionHistory(tier);
+  }, []);
+
+  /** Read the engine's production rate breakdown */
+  const getProductionBreakdown = useCallback(() => {
+    return gameEngineRef.current.getProductionBreakdown();
+  }, []);
+
+  /** Collect a Merged PR bonus */
+  const claimIncident = useCallback((incidentId: string) => {
+    const reward = gameEngineRef.current.claimIncident(incidentId);
+    setGameState(gameEngineRef.current.getState());
+    return reward;
+  }, []);
+
+  /** Plan towards a goal */
+  const setGoal = useCallback((goal: PlannerGoal | null, follow = false) => {
+    const success = gameEngineRef.current.setGoal(goal, { follow });
+    setGameState(gameEngineRef.current.getState());
+    return success;
+  }, []);
+
+  /** Toggle auto-buy following the goal plan */
+  const setGoalFollow = useCallback((follow: boolean) => {
+    gameEngineRef.current.setGoalFollow(follow);
+    setGameState(gameEngineRef.current.getState());
+  }, []);
+
+  /** Start researching a node */
+  const startResearch = useCallback((researchId: string) => {
+    const success = gameEngineRef.current.startResearch(researchId);
+    setGameState(gameEngineRef.current.getState());
+    return success;
+  }, []);
+
+  /** Subscribe to events of the shared engine */
+  const onGameEvent: GameEngine['on'] = useCallback((type, listener) => {
+    return gameEngineRef.current.on(type, listener);
+  }, []);
+
   const value = {
     resources: gameState.resources,
     productionRate: gameState.productionRate,
+    currencies: gameState.currencies,
     producers: gameState.producers,
     bestValueProducerId: gameState.bestValueProducerId,
     autoBuyEnabled: gameState.autoBuyEnabled,
@@ -289,14 +847,24 @@ export const GameProvider: React.FC<GameProviderProps> = ({ children }) => {
     canAffordAutoBuySpeedUpgrade: gameState.canAffordAutoBuySpeedUpgrade,
     autoBuyInterval: gameState.autoBuyInterval,
     timeUntilNextAutoBuy: gameState.timeUntilNextAutoBuy,
+    autoBuyStrategy: gameState.autoBuyStrategy,
+    autoBuyRules: gameState.autoBuyRules,
+    setAutoBuyStrategy,
+    setAutoBuyRule,
+    upgradeBotUnlocked: gameState.upgradeBotUnlocked,
+    autoBuyUpgrades: gameState.autoBuyUpgrades,
+    setUpgradeAutoBuy,
     click,
     purchaseProducer,
+    buyQuantity: gameState.buyQuantity,
+    setBuyQuantity,
     toggleAutoBuy,
     purchaseAutoBuySpeedUpgrade,
     resetGame,
     wordsTyped: gameState.wordsTyped,
     streakWords: gameState.streakWords,
     currentStreakMultiplier: gameState.currentStreakMultiplier,
+    typingMetrics: gameState.typingMetrics,
     typingUnlocked: gameState.typingUnlocked,
     challengesUnlocked: gameState.challengesUnlocked,
     challengesEnabled: gameState.challengesEnabled,
@@ -309,12 +877,50 @@ export const GameProvider: React.FC<GameProviderProps> = ({ children }) => {
     triggerChallenge,
     upgrades: gameState.upgrades,
     purchaseUpgrade,
+    producerUpgrades: gameState.producerUpgrades,
+    purchaseProducerUpgrade,
     clickPowerLevel: gameState.clickPowerLevel,
     clickValue: gameState.clickValue,
     clickPowerUpgradeCost: gameState.clickPowerUpgradeCost,
     canAffordClickPowerUpgrade: gameState.canAffordClickPowerUpgrade,
     purchaseClickPowerUpgrade,
     cheatActive,
+    runEarnings: gameState.runEarnings,
+    releasePoints: gameState.releasePoints,
+    totalReleases: gameState.totalReleases,
+    prestigeMultiplier: gameState.prestigeMultiplier,
+    pendingReleasePoints: gameState.pendingReleasePoints,
+    canShipToProduction: gameState.canShipToProduction,
+    shipToProduction,
+    achievements: gameState.achievements,
+    achievementMultiplier: gameState.achievementMultiplier,
+    saveRecovery,
+    repairSave,
+    discardBrokenSave,
+    exportSave,
+    previewImport,
+    importSave,
+    saveSlots,
+    activeSlotId,
+    createSlot,
+    renameSlot,
+    duplicateSlot,
+    deleteSlot,
+    switchSlot,
+    offlineReport: gameState.offlineReport,
+    dismissOfflineReport,
+    stats: gameState.stats,
+    getProductionHistory,
+    getProductionBreakdown,
+    incidents: gameState.incidents,
+    claimIncident,
+    goal: gameState.goal,
+    setGoal,
+    setGoalFollow,
+    research: gameState.research,
+    activeResearchId: gameState.activeResearchId,
+    startResearch,
+    onGameEvent,
   } as GameContextType;
 
   useEffect(() => {
@@ -1,7 +1,40 @@
-import { BASE_CLICK_POWER, DEFAULT_COST_MULTIPLIER, PRODUCER_TIERS, UPGRADES } from '../constants/gameConstants';
+import { BASE_CLICK_POWER, BUY_QUANTITIES, CURRENCIES, GAME_UPDATE_FPS, OFFLINE_CONFIG, PLANNER_CONFIG, REPEATABLE_IDS, SAVE_VERSION, TYPING_CONFIG, UPGRADE_IDS } from '../constants/gameConstants';
+import { ACHIEVEMENTS } from '../constants/achievements';
+import type { SaveData } from '../types/game.types';
 import { AutoBuyer } from './autobuy/AutoBuyer';
+import type { AutoBuyRule, UpgradeCandidate } from './autobuy/AutoBuyer';
+import type { AutoBuyStrategyId } from './autobuy/autoBuyStrategies';
 import { TypingEngine } from './typing/TypingEngine';
 import { ProducerManager } from './producers/ProducerManager';
+import type { ProducerSynergy } from './producers/ProducerManager';
+import { PrestigeManager } from './prestige/PrestigeManager';
+import { AchievementManager } from './achievements/AchievementManager';
+import { StatsTracker } from './stats/StatsTracker';
+import type { EarningSource } from './stats/StatsTracker';
+import { ProductionHistory } from './history/ProductionHistory';
+import type { HistorySample, HistoryTierId } from './history/ProductionHistory';
+import { IncidentManager } from './incidents/IncidentManager';
+import { ModifierStack } from './modifiers/ModifierStack';
+import type { Modifier } from './modifiers/ModifierStack';
+import type { IncidentContext } from './incidents/IncidentManager';
+import type { IncidentDef } from '../constants/incidents';
+import { GoalPlanner } from './planner/GoalPlanner';
+import { ResearchManager } from './research/ResearchManager';
+import { SECONDARY_CURRENCIES, Wallet } from './currencies/Wallet';
+import type { CurrencyAmounts, CurrencyId, SecondaryCurrencyId } from './currencies/Wallet';
+import type { GoalPlan, GoalTarget, PlannerGoal, PlannerStats } from './planner/GoalPlanner';
+import { parseSave } from './save/saveSchema';
+import { ManualClock, systemClock } from './clock/Clock';
+import type { Clock } from './clock/Clock';
+import type { SaveSchemaContext } from './save/saveSchema';
+import { DEFAULT_CONTENT } from './content/defaultContent';
+import type { ContentPack, RepeatableDef, ResearchDef } from './content/contentSchema';
+import { EventBus } from './events/EventBus';
+import type { EventListener } from './events/EventBus';
+import type { GameEvents } from './events/gameEvents';
+import { BigNum } from '../utils/BigNum';
+import type { BigNumSource } from '../utils/BigNum';
+import { SeededRandom } from '../utils/SeededRandom';
 
 /**
  * Core game engine handling all game logic and state management.
@@ -22,25 +55,105 @@ export interface ProducerTier {
   baseCost: number;
   /** Multiplier applied to cost for each purchase (e.g., 1.15 = 15% increase) */
   costMultiplier: number;
-  /** Resources produced per second per unit owned */
+  /** Units of `produces` made per second per unit owned */
   productionRate: number;
+  /** Currency the producer makes */
+  produces: CurrencyId;
+  /** Secondary currency costs of the first unit (they grow by costMultiplier like baseCost) */
+  extraCosts: Partial<Record<SecondaryCurrencyId, number>>;
   /** Number of this producer currently owned */
   quantity: number;
-  /** Total resources spent on purchasing this producer so far */
-  totalSpent: number;
+  /** Total resources spent on purchasing this producer so far (secondary currencies not included) */
+  totalSpent: BigNum;
   /** Resources required to reveal this producer */
   unlockThreshold?: number;
 }
 
+/** Selected producer buy quantity */
+export type BuyQuantity = typeof BUY_QUANTITIES[number];
+
+/**
+ * Summary of progress credited while the player was away
+ */
+export interface OfflineReport {
+  /** Real time elapsed since the last update, in seconds */
+  secondsAway: number;
+  /** Time actually credited after applying OFFLINE_CONFIG.maxSeconds */
+  secondsCredited: number;
+  /** Fraction of normal production earned */
+  efficiency: number;
+  /** Resources earned during the gap */
+  resourcesEarned: BigNum;
+  /** Producers bought by simulated auto-buy, keyed by producer name */
+  producersBought: Record<string, number>;
+}
+
+/**
+ * History samples for one resolution plus the markers that fall inside it
+ */
+export interface ProductionHistorySnapshot {
+  samples: HistorySample[];
+  markers: Array<{ t: number; kind: 'unlock' | 'upgrade' | 'release'; label: string }>;
+}
+
+/** One modifier as shown in a breakdown */
+export interface ModifierLine {
+  source: string;
+  type: 'add' | 'mult';
+  value: BigNum;
+  /** Seconds until a timed modifier expires (null = permanent) */
+  secondsRemaining: number | null;
+}
+
+/**
+ * How the production rate is built: each producer's unit rate through its modifiers
+ * and synergies, then the global modifiers applied to their sum
+ */
+export interface ProductionBreakdown {
+  producers: Array<{
+    producerId: string;
+    name: string;
+    quantity: number;
+    /** Unmodified production per unit */
+    baseRate: number;
+    modifiers: ModifierLine[];
+    /** Combined synergy multiplier (1 = none) */
+    synergyMultiplier: number;
+    /** Production per second of all units before global modifiers */
+    total: BigNum;
+  }>;
+  /** Sum of producer totals */
+  subtotal: BigNum;
+  global: ModifierLine[];
+  /** Final production rate */
+  total: BigNum;
+}
+
+/**
+ * Options for constructing a GameEngine
+ */
+export interface GameEngineOptions {
+  /** Time source for the engine and its subsystems (defaults to the system clock) */
+  clock?: Clock;
+  /** Producers, upgrades and challenges to build the game from (defaults to the built-in content) */
+  content?: ContentPack;
+  /** Random incidents: seed for a reproducible sequence (default random) and frequency (default 1, 0 disables) */
+  incidents?: { seed?: number; frequency?: number };
+}
+
 /**
  * Main game engine class
  */
 export class GameEngine {
-  public resources: number;
-  public productionRate: number;
+  public resources: BigNum;
+  public productionRate: BigNum;
   public producers: ProducerTier[];
   public autoBuyEnabled: boolean;
   public autoBuySpeedLevel: number; // Number of speed upgrades purchased
+  /** Resources earned since the last Ship to Production (or hard reset) */
+  public runEarnings: BigNum;
+  /** How many producers a Buy click purchases (UI preference, not saved) */
+  public buyQuantity: BuyQuantity;
   private lastUpdate: number;
   private bestValueProducerId: string | undefined;
   // Core state
@@ -52,13 +165,39 @@ export class GameEngine {
   private typing: TypingEngine;
   private autoBuyer: AutoBuyer;
   private producerManager: ProducerManager;
+  private prestige: PrestigeManager;
+  private achievements: AchievementManager;
+  private stats: StatsTracker;
+  private history: ProductionHistory;
+  private incidents: IncidentManager;
+  private readonly modifiers: ModifierStack;
+  private research: ResearchManager;
+  /** Whether the typing flow bonus is in the modifier pipeline */
+  private flowActive: boolean;
+  /** Commits, Coffee and Tech Debt held in this run */
+  private wallet: Wallet;
+  /** Production per second of each secondary currency */
+  private currencyRates: Record<SecondaryCurrencyId, BigNum>;
+  private planner: GoalPlanner;
+  /** Goal the player is planning for; `follow` makes auto-buy buy the plan's producers only */
+  private goal: { goal: PlannerGoal; target: GoalTarget; follow: boolean } | null;
+  /** Cached plan for the goal, the time it was computed and whether production has changed since */
+  private goalPlan: { plan: GoalPlan; plannedAt: number; stale: boolean } | null;
+  private offlineReport: OfflineReport | null;
+  private readonly clock: Clock;
+  private readonly content: ContentPack;
+  private readonly events = new EventBus<GameEvents>();
 
-  constructor() {
-    this.resources = 0;
-    this.productionRate = 0;
-    this.lastUpdate = Date.now();
+  constructor(options: GameEngineOptions = {}) {
+    this.clock = options.clock ?? systemClock;
+    this.content = options.content ?? DEFAULT_CONTENT;
+    this.resources = BigNum.ZERO;
+    this.productionRate = BigNum.ZERO;
+    this.lastUpdate = this.clock.now();
     this.autoBuyEnabled = false;
     this.autoBuySpeedLevel = 0;
+    this.runEarnings = BigNum.ZERO;
+    this.buyQuantity = 1;
     this.producers = this.initializeProducers();
     this.bestValueProducerId = undefined;
     // Initialize core state
@@ -66,14 +205,70 @@ export class GameEngine {
     this.purchasedUpgrades = new Set<string>();
     this.clickPowerLevel = 0;
     this.challengesEnabled = true;
+    this.flowActive = false;
     // Typing state init
-    this.typing = new TypingEngine();
+    this.typing = new TypingEngine(this.clock, this.content.challenges, this.events);
     // AutoBuyer init
-    this.autoBuyer = new AutoBuyer();
-    this.producerManager = new ProducerManager();
+    this.autoBuyer = new AutoBuyer(this.clock);
+    this.modifiers = new ModifierStack(this.clock);
+    this.producerManager = new ProducerManager(this.clock, this.modifiers);
+    this.prestige = new PrestigeManager();
+    this.achievements = new AchievementManager();
+    this.stats = new StatsTracker();
+    this.history = new ProductionHistory();
+    this.incidents = new IncidentManager(
+      new SeededRandom(options.incidents?.seed ?? SeededRandom.randomSeed()),
+      this.events,
+      this.lastUpdate,
+      options.incidents?.frequency,
+    );
+    this.research = new ResearchManager(this.content.research, this.events);
+    this.wallet = new Wallet();
+    this.currencyRates = this.getCurrencyRates();
+    this.planner = new GoalPlanner(this.producerManager);
+    this.goal = null;
+    this.goalPlan = null;
+    this.offlineReport = null;
+    this.recordHistoryMarkers();
+    this.earnTypingCommits();
   }
 
-  /** Initialize all producer tiers with dev-themed values */
+  /** Completed words and challenges are committed: each one earns Commits */
+  private earnTypingCommits(): void {
+    this.events.on('wordCompleted', () => this.wallet.add('commits', TYPING_CONFIG.commitsPerWord));
+    this.events.on('challengeCompleted', () => this.wallet.add('commits', TYPING_CONFIG.commitsPerChallenge));
+  }
+
+  /** Mark producer unlocks, one-time upgrade purchases and releases on the history chart */
+  private recordHistoryMarkers(): void {
+    this.events.on('producerUnlocked', ({ producerId }) => this.history.addMarker(this.clock.now(), 'unlock', producerId));
+    this.events.on('upgradePurchased', ({ upgradeId, kind }) => {
+      if (kind !== 'repeatable') this.history.addMarker(this.clock.now(), 'upgrade', upgradeId);
+    });
+    this.events.on('gameReset', ({ reason }) => {
+      if (reason === 'release') this.history.addMarker(this.clock.now(), 'release', 'release');
+    });
+  }
+
+  /**
+   * Subscribe to an engine event (see GameEvents)
+   * @returns Function that removes the listener
+   */
+  on<K extends keyof GameEvents>(type: K, listener: EventListener<GameEvents[K]>): () => void {
+    return this.events.on(type, listener);
+  }
+
+  /** Subscribe to the next occurrence of an engine event only */
+  once<K extends keyof GameEvents>(type: K, listener: EventListener<GameEvents[K]>): () => void {
+    return this.events.once(type, listener);
+  }
+
+  /** Remove a listener added with on() */
+  off<K extends keyof GameEvents>(type: K, listener: EventListener<GameEvents[K]>): void {
+    this.events.off(type, listener);
+  }
+
+  /** Initialize the manual coding session plus every producer from the content pack */
   private initializeProducers(): ProducerTier[] {
     return [
       {
@@ -83,53 +278,12 @@ export class GameEngine {
         baseCost: 0,
         costMultiplier: 1,
         productionRate: 1,
+        produces: 'resources',
+        extraCosts: {},
         quantity: 0,
-        totalSpent: 0,
+        totalSpent: BigNum.ZERO,
       },
-      {
-        id: PRODUCER_TIERS.SCRIPT_RUNNER.id,
-        name: PRODUCER_TIERS.SCRIPT_RUNNER.name,
-        description: PRODUCER_TIERS.SCRIPT_RUNNER.description,
-        baseCost: PRODUCER_TIERS.SCRIPT_RUNNER.baseCost,
-        costMultiplier: DEFAULT_COST_MULTIPLIER,
-        productionRate: PRODUCER_TIERS.SCRIPT_RUNNER.productionRate,
-        quantity: 0,
-        totalSpent: 0,
-        unlockThreshold: PRODUCER_TIERS.SCRIPT_RUNNER.unlockThreshold,
-      },
-      {
-        id: PRODUCER_TIERS.BUILD_SERVER.id,
-        name: PRODUCER_TIERS.BUILD_SERVER.name,
-        description: PRODUCER_TIERS.BUILD_SERVER.description,
-        baseCost: PRODUCER_TIERS.BUILD_SERVER.baseCost,
-        costMultiplier: DEFAULT_COST_MULTIPLIER,
-        productionRate: PRODUCER_TIERS.BUILD_SERVER.productionRate,
-        quantity: 0,
-        totalSpent: 0,
-        unlockThreshold: PRODUCER_TIERS.BUILD_SERVER.unlockThreshold,
-      },
-      {
-        id: PRODUCER_TIERS.CI_PIPELINE.id,
-        name: PRODUCER_TIERS.CI_PIPELINE.name,
-        description: PRODUCER_TIERS.CI_PIPELINE.description,
-        baseCost: PRODUCER_TIERS.CI_PIPELINE.baseCost,
-        costMultiplier: DEFAULT_COST_MULTIPLIER,
-        productionRate: PRODUCER_TIERS.CI_PIPELINE.productionRate,
-        quantity: 0,
-        totalSpent: 0,
-        unlockThreshold: PRODUCER_TIERS.CI_PIPELINE.unlockThreshold,
-      },
-      {
-        id: PRODUCER_TIERS.CLOUD_ORCHESTRATOR.id,
-        name: PRODUCER_TIERS.CLOUD_ORCHESTRATOR.name,
-        description: PRODUCER_TIERS.CLOUD_ORCHESTRATOR.description,
-        baseCost: PRODUCER_TIERS.CLOUD_ORCHESTRATOR.baseCost,
-        costMultiplier: DEFAULT_COST_MULTIPLIER,
-        productionRate: PRODUCER_TIERS.CLOUD_ORCHESTRATOR.productionRate,
-        quantity: 0,
-        totalSpent: 0,
-        unlockThreshold: PRODUCER_TIERS.CLOUD_ORCHESTRATOR.unlockThreshold,
-      }
+      ...this.content.producers.map(def => ({ ...def, quantity: 0, totalSpent: BigNum.ZERO })),
     ];
   }
 
@@ -138,23 +292,52 @@ export class GameEngine {
    * Awards resources per click based on configured base click power
    */
   click(): void {
-    this.resources += this.getClickValue();
+    this.stats.recordClick();
+    this.earn(this.getClickValue(), 'click');
   }
 
   /** Cheat click awarding flat 100 resources per activation (A+T combo) */
   cheatClick(): void {
-    this.resources += 100;
+    this.earn(100, 'click');
+  }
+
+  /** Credit earned resources, count them toward the current run and record their source */
+  private earn(amount: BigNumSource, source: EarningSource): void {
+    this.resources = this.resources.add(amount);
+    this.runEarnings = this.runEarnings.add(amount);
+    this.stats.recordEarning(amount, source);
   }
 
-  /** Current click value based on clickPowerLevel */
-  private getClickValue(): number {
-    // Doubling each level: base * 2^level
-    return BASE_CLICK_POWER * Math.pow(2, this.clickPowerLevel);
+  /** Credit online producer output for `seconds`, attributed to each resource producer in the stats */
+  private earnProduction(seconds: number): void {
+    const production = this.productionRate.mul(seconds);
+    this.resources = this.resources.add(production);
+    this.runEarnings = this.runEarnings.add(production);
+    const shares: Record<string, number> = {};
+    for (const p of this.producers) {
+      if (p.id !== 'codingSession' && p.produces === 'resources' && p.quantity > 0) {
+        shares[p.id] = this.producerManager.getUnitRate(p, this.producers) * p.quantity;
+      }
+    }
+    this.stats.recordProduction(production, shares);
+  }
+
+  /** Credit `seconds` of secondary currency production to the wallet */
+  private produceCurrencies(seconds: number): void {
+    for (const id of SECONDARY_CURRENCIES) {
+      if (this.currencyRates[id].gt(0)) this.wallet.add(id, this.currencyRates[id].mul(seconds));
+    }
+  }
+
+  /** Current click value: BASE_CLICK_POWER through the 'click' modifiers (Click Power doubles it per level) */
+  private getClickValue(): BigNum {
+    return this.modifiers.apply(BASE_CLICK_POWER, 'click');
   }
 
   /** Handle a typed character (optional mechanic) */
   typeChar(char: string): void {
-    this.typing.handleChar(char, (val) => { this.resources += val; });
+    this.typing.handleChar(char, (val, source) => { this.earn(this.modifiers.apply(val, 'typing'), source); });
+    if (this.incidents.handleChar(char)) this.refreshIncidentEffects();
   }
 
   /** Public manual trigger for a typing challenge */
@@ -169,42 +352,84 @@ export class GameEngine {
    * @param producerId - The unique identifier of the producer
    * @returns The cost in resources, or 0 if producer not found
    */
-  getProducerCost(producerId: string): number {
+  getProducerCost(producerId: string): BigNum {
     const producer = this.producers.find(u => u.id === producerId);
-    if (!producer) return 0;
+    if (!producer) return BigNum.ZERO;
     return this.producerManager.getCost(producer);
   }
 
   /**
-   * Check if the player can afford the next purchase of a producer
+   * Secondary currency part of the next producer purchase (empty if paid in resources only)
+   */
+  getProducerExtraCosts(producerId: string, count = 1): CurrencyAmounts {
+    const producer = this.producers.find(u => u.id === producerId);
+    if (!producer) return {};
+    return this.producerManager.getExtraCosts(producer, count);
+  }
+
+  /**
+   * Check if the player can afford the next purchase of a producer, in every currency it costs
    */
   canAffordProducer(producerId: string): boolean {
     const producer = this.producers.find(u => u.id === producerId);
     if (!producer) return false;
-    return this.producerManager.canAfford(producer, this.resources);
+    return this.producerManager.canAfford(producer, this.resources, this.wallet);
+  }
+
+  /**
+   * Number of units the selected buy quantity resolves to for a producer
+   * 'max' resolves to the largest affordable count, or 1 when none is affordable
+   */
+  getBuyCount(producerId: string): number {
+    if (this.buyQuantity !== 'max') return this.buyQuantity;
+    const producer = this.producers.find(u => u.id === producerId);
+    if (!producer) return 1;
+    return Math.max(1, this.producerManager.getMaxAffordable(producer, this.resources, this.wallet));
   }
 
   /**
-   * Attempt to purchase a producer by id
+   * Total cost of buying `count` units of a producer (geometric series)
+   */
+  getProducerBulkCost(producerId: string, count: number): BigNum {
+    const producer = this.producers.find(u => u.id === producerId);
+    if (!producer) return BigNum.ZERO;
+    return this.producerManager.getBulkCost(producer, count);
+  }
+
+  /** Change how many producers a Buy click purchases */
+  setBuyQuantity(quantity: BuyQuantity): void {
+    this.buyQuantity = quantity;
+  }
+
+  /**
+   * Attempt to purchase one or more units of a producer by id
+   * @param count - Units to buy; the purchase fails unless all are affordable in every currency
    * @returns true if purchase succeeded
    */
-  purchaseProducer(producerId: string): boolean {
+  purchaseProducer(producerId: string, count = 1): boolean {
     const producer = this.producers.find(u => u.id === producerId);
     if (!producer) return false;
-    const res = this.producerManager.purchase(producer, this.resources);
+    const res = this.producerManager.purchase(producer, this.resources, this.wallet, count);
     if (!res.success) return false;
     this.resources = res.newResources;
     this.updateProductionRate();
     this.calculateBestValue();
+    this.events.emit('producerPurchased', { producerId, count, cost: res.cost, quantity: producer.quantity });
     return true;
   }
 
   /**
-   * Calculate best value producer based on CURRENT cost/production ratio
+   * Calculate best value producer by payback time (time to afford plus time to earn the cost back)
    * Only recalculates every 5 seconds or after a purchase for stability
    */
   private calculateBestValue(): void {
-    this.producerManager.recalcBestValue(this.producers);
+    this.producerManager.recalcBestValue(this.producers, {
+      resources: this.resources,
+      income: this.productionRate,
+      globalMultiplier: this.getGlobalMultiplier(),
+      wallet: this.wallet,
+      isUnlocked: (id) => this.unlockedProducers.has(id),
+    });
     this.bestValueProducerId = this.producerManager.getBestValueId();
   }
 
@@ -213,7 +438,174 @@ export class GameEngine {
    * Called after any producer purchase
    */
   private updateProductionRate(): void {
-    this.productionRate = this.producerManager.totalProduction(this.producers);
+    this.productionRate = this.modifiers.apply(this.producerManager.totalProduction(this.producers), 'global');
+    this.currencyRates = this.getCurrencyRates();
+    this.stats.recordProductionRate(this.productionRate);
+    // Any change to production makes the goal plan stale; update() replans on a throttle
+    if (this.goalPlan) this.goalPlan.stale = true;
+  }
+
+  /**
+   * Production per second of each secondary currency
+   * Global multipliers scale every currency; global additive bonuses are resources only.
+   */
+  private getCurrencyRates(): Record<SecondaryCurrencyId, BigNum> {
+    const multiplier = this.modifiers.getMultiplier('global');
+    return Object.fromEntries(SECONDARY_CURRENCIES.map(id =>
+      [id, this.producerManager.totalProduction(this.producers, id).mul(multiplier)])) as Record<SecondaryCurrencyId, BigNum>;
+  }
+
+  /**
+   * Every currency with its balance and rate, for the resource display
+   * Secondary currencies are listed once the player holds, makes or needs some.
+   */
+  private getCurrencies() {
+    const relevant = (id: SecondaryCurrencyId) => this.wallet.get(id).gt(0) || this.currencyRates[id].gt(0)
+      || this.producers.some(p => this.unlockedProducers.has(p.id) && (p.produces === id || p.extraCosts[id] !== undefined))
+      || (id === 'commits' && this.purchasedUpgrades.has(UPGRADE_IDS.TYPING));
+    return [
+      { id: 'resources' as CurrencyId, ...CURRENCIES.resources, amount: this.resources, rate: this.productionRate },
+      ...SECONDARY_CURRENCIES.filter(relevant).map(id => ({ id: id as CurrencyId, ...CURRENCIES[id], amount: this.wallet.get(id), rate: this.currencyRates[id] })),
+    ];
+  }
+
+  /** Product of the 'global' multipliers (prestige, achievements, active incidents) */
+  private getGlobalMultiplier(): number {
+    return this.modifiers.getMultiplier('global').toNumber();
+  }
+
+  /** Production per second of one unit with producer upgrades, synergies and global multipliers applied */
+  private getEffectiveUnitRate(producer: ProducerTier): number {
+    return this.producerManager.getUnitRate(producer, this.producers) * this.getGlobalMultiplier();
+  }
+
+  /** Synergy bonuses a producer receives and grants, for the producer cards */
+  private getSynergyInfo(producer: ProducerTier) {
+    const nameOf = (id: string) => this.producers.find(p => p.id === id)?.name ?? id;
+    const synergies = this.producerManager.getSynergies();
+    return {
+      boostedBy: synergies.filter(s => s.targetId === producer.id).map(s => ({
+        sourceName: nameOf(s.sourceId),
+        upgradeName: s.upgradeName,
+        bonus: s.bonusPerUnit * (this.producers.find(p => p.id === s.sourceId)?.quantity ?? 0),
+      })),
+      boosts: synergies.filter(s => s.sourceId === producer.id).map(s => ({
+        targetName: nameOf(s.targetId),
+        upgradeName: s.upgradeName,
+        bonusPerUnit: s.bonusPerUnit,
+      })),
+    };
+  }
+
+  /**
+   * Rebuild the modifier pipeline from game state: producer upgrades, click power, prestige,
+   * achievements, research, typing flow and incidents. Synergies depend on live producer counts, so they stay in the
+   * ProducerManager. Call after anything that changes one of these sources.
+   */
+  private syncModifiers(): void {
+    const synergies: ProducerSynergy[] = [];
+    this.modifiers.clear();
+    for (const upgrade of this.content.producerUpgrades) {
+      if (!this.purchasedUpgrades.has(upgrade.id)) continue;
+      if (upgrade.effect.type === 'multiplier') {
+        this.modifiers.set({
+          id: `upgrade:${upgrade.id}`, source: upgrade.name, target: 'producer', producerId: upgrade.producerId,
+          type: 'mult', value: upgrade.effect.factor,
+        });
+      } else {
+        synergies.push({
+          sourceId: upgrade.effect.sourceId,
+          targetId: upgrade.producerId,
+          bonusPerUnit: upgrade.effect.bonusPerUnit,
+          upgradeName: upgrade.name,
+        });
+      }
+    }
+    this.producerManager.setSynergies(synergies);
+
+    if (this.clickPowerLevel > 0) {
+      this.modifiers.set({
+        id: 'click-power', source: `Click Power (level ${this.clickPowerLevel})`, target: 'click',
+        type: 'mult', value: BigNum.from(2).pow(this.clickPowerLevel),
+      });
+    }
+    const releasePoints = this.prestige.getReleasePoints();
+    if (releasePoints > 0) {
+      this.modifiers.set({ id: 'prestige', source: `Release Points (${releasePoints})`, target: 'global', type: 'mult', value: this.prestige.getMultiplier() });
+    }
+    const achievementCount = this.achievements.getUnlockedIds().length;
+    if (achievementCount > 0) {
+      this.modifiers.set({ id: 'achievements', source: `Achievements (${achievementCount})`, target: 'global', type: 'mult', value: this.achievements.getMultiplier() });
+    }
+    for (const modifier of this.research.getModifiers()) this.modifiers.set(modifier);
+    if (this.flowActive) {
+      this.modifiers.set({
+        id: 'typing-flow', source: `Flow State (${TYPING_CONFIG.flowWpm}+ WPM)`, target: 'global',
+        type: 'mult', value: TYPING_CONFIG.flowMultiplier,
+      });
+    }
+    const producerName = (id: string) => this.producers.find(p => p.id === id)?.name ?? id;
+    for (const modifier of this.incidents.getModifiers(producerName)) this.modifiers.set(modifier);
+  }
+
+  /**
+   * Evaluate achievement conditions against the current state
+   * Newly unlocked achievements immediately boost production
+   */
+  private checkAchievements(): void {
+    const producerQuantities: Record<string, number> = {};
+    for (const p of this.producers) {
+      if (p.id !== 'codingSession') producerQuantities[p.id] = p.quantity;
+    }
+    const unlocked = this.achievements.evaluate({
+      resources: this.resources,
+      producerQuantities,
+      ...this.typing.getProgressStats(),
+      purchasedUpgrades: this.purchasedUpgrades,
+      oneTimeUpgradeIds: this.content.upgrades.map(u => u.id),
+    });
+    if (unlocked.length > 0) {
+      this.syncModifiers();
+      this.updateProductionRate();
+    }
+    for (const achievementId of unlocked) this.events.emit('achievementUnlocked', { achievementId });
+  }
+
+  /** Reveal producers whose unlock threshold has been reached */
+  private applyUnlocks(): void {
+    const unlocked = this.producerManager.applyUnlocks(this.producers, this.resources, this.unlockedProducers);
+    for (const producerId of unlocked) this.events.emit('producerUnlocked', { producerId });
+  }
+
+  /** Engine state the incident scheduler needs to decide which incidents can happen */
+  private getIncidentContext(): IncidentContext {
+    return {
+      typingUnlocked: this.purchasedUpgrades.has(UPGRADE_IDS.TYPING),
+      ownedProducerIds: this.producers.filter(p => p.id !== 'codingSession' && p.quantity > 0).map(p => p.id),
+      productionRate: this.productionRate,
+    };
+  }
+
+  /** Finish research whose time is up and apply its effects */
+  private updateResearch(now: number): void {
+    if (!this.research.update(now)) return;
+    this.syncModifiers();
+    this.updateProductionRate();
+  }
+
+  /** Add or remove the flow bonus when sustained typing speed is reached or lost */
+  private updateFlow(): void {
+    const inFlow = this.typing.isInFlow();
+    if (inFlow === this.flowActive) return;
+    this.flowActive = inFlow;
+    this.syncModifiers();
+    this.updateProductionRate();
+  }
+
+  /** Re-apply incident modifiers after an incident starts or ends */
+  private refreshIncidentEffects(): void {
+    this.syncModifiers();
+    this.updateProductionRate();
   }
 
   /**
@@ -221,42 +613,227 @@ export class GameEngine {
    * Should be called every frame (typically via requestAnimationFrame)
    */
   update(): void {
-    const now = Date.now();
+    const now = this.clock.now();
     const deltaTime = (now - this.lastUpdate) / 1000; // Convert to seconds
     this.lastUpdate = now;
 
-    this.producerManager.applyUnlocks(this.producers, this.resources, this.unlockedProducers);
+    if (this.incidents.update(now, this.getIncidentContext())) this.refreshIncidentEffects();
+    if (this.modifiers.prune(now)) this.updateProductionRate();
+    this.updateFlow();
+
+    this.stats.addPlayTime(deltaTime);
+    this.applyUnlocks();
+    this.updateResearch(now);
 
     // Add resources based on production rate
-    if (this.productionRate > 0) {
-      const production = this.productionRate * deltaTime;
-      this.resources += production;
+    if (this.productionRate.gt(0)) {
+      this.earnProduction(deltaTime);
     }
+    this.produceCurrencies(deltaTime);
 
     // Auto-buy producers if enabled
     if (this.autoBuyEnabled) {
       this.handleAutoBuy(now);
     }
 
-    // Challenge timeout handled inside TypingEngine
+    this.checkGoal();
+    this.refreshGoalPlan(now);
+    this.typing.update();
+    this.checkAchievements();
+    this.history.record(now, this.resources, this.productionRate);
+  }
+
+  /**
+   * Credit the time since the last update as offline progress if it is at least OFFLINE_CONFIG.minSeconds
+   * Call after load() and when a backgrounded tab becomes visible again; update() counts every frame
+   * as live play, however long.
+   */
+  resume(): void {
+    const now = this.clock.now();
+    const secondsAway = (now - this.lastUpdate) / 1000;
+    if (secondsAway < OFFLINE_CONFIG.minSeconds) return;
+    this.lastUpdate = now;
+
+    // Incidents that ended while away must not boost (or slow) offline progress
+    if (this.incidents.update(now, this.getIncidentContext())) this.refreshIncidentEffects();
+    if (this.modifiers.prune(now)) this.updateProductionRate();
+    // Flow ends with the pause, so it never boosts offline progress
+    this.updateFlow();
+
+    this.applyOfflineProgress(secondsAway, now);
+    // Research that finished while away applies from now on
+    this.updateResearch(now);
+    this.checkGoal();
+    this.refreshGoalPlan(now);
+    this.history.record(now, this.resources, this.productionRate);
+  }
+
+  /**
+   * Step simulated time forward, running update() every stepMs
+   * Requires the engine to be constructed with a ManualClock.
+   *
+   * @param ms - Total simulated milliseconds to advance
+   * @param stepMs - Frame length between updates (default: one GAME_UPDATE_FPS frame)
+   * @throws RangeError if ms is negative or not finite, or stepMs is not a positive finite number
+   */
+  advance(ms: number, stepMs = 1000 / GAME_UPDATE_FPS): void {
+    if (!(this.clock instanceof ManualClock)) {
+      throw new Error('GameEngine.advance() requires a ManualClock');
+    }
+    if (!Number.isFinite(ms) || ms < 0) {
+      throw new RangeError(`GameEngine.advance() needs a finite, non-negative ms (got ${ms})`);
+    }
+    if (!Number.isFinite(stepMs) || stepMs <= 0) {
+      throw new RangeError(`GameEngine.advance() needs a finite, positive stepMs (got ${stepMs})`);
+    }
+    let remaining = ms;
+    while (remaining > 0) {
+      const step = Math.min(stepMs, remaining);
+      this.clock.advance(step);
+      this.update();
+      remaining -= step;
+    }
+  }
+
+  /**
+   * Advance simulated time by a single frame of dt seconds
+   * Long frames count as live play too; only resume() credits offline progress.
+   * @throws RangeError unless dt is a positive finite number
+   */
+  tick(dt: number): void {
+    this.advance(dt * 1000, dt * 1000);
   }
 
   /**
-   * Handle auto-buying of producers
-   * Buys the best value (lowest cost per resource) producer based on upgrade interval
+   * Handle auto-buying of producers and (with the Upgrade Bot) opted-in upgrades
+   * Makes at most one purchase per interval from the AutoBuyer's shared queue
+   * @returns The producer bought, or null if nothing or an upgrade was bought
    */
-  private handleAutoBuy(now: number): void {
+  private handleAutoBuy(now: number, offline = false): ProducerTier | null {
     // delegate to AutoBuyer and purchase best if possible
     this.autoBuyer.setEnabled(this.autoBuyEnabled);
     this.autoBuyer.setSpeedLevel(this.autoBuySpeedLevel);
-    const purchaseId = this.autoBuyer.tryPurchaseBest(now, this.resources, this.producers, (id) => this.getProducerCost(id));
-    if (!purchaseId) return;
-    const target = this.producers.find(p => p.id === purchaseId);
-    if (!target) return;
-    const res = this.producerManager.purchase(target, this.resources);
-    if (!res.success) return;
+    const plan = this.goal?.follow ? this.goalPlan?.plan ?? null : null;
+    const purchase = this.autoBuyer.tryPurchase(now, {
+      resources: this.resources,
+      producers: this.producers,
+      isUnlocked: (id) => this.unlockedProducers.has(id),
+      getCost: (id) => this.getProducerCost(id),
+      canAffordExtraCosts: (p) => this.wallet.canAfford(this.producerManager.getExtraCosts(p)),
+      getGain: (p) => this.producerManager.getResourceGain(p, this.producers, this.wallet, (id) => this.unlockedProducers.has(id)),
+      income: this.productionRate,
+      globalMultiplier: this.getGlobalMultiplier(),
+      // A followed plan decides every purchase
+      upgrades: plan ? [] : this.getUpgradeBotCandidates(),
+      plannedProducerId: plan ? plan.steps[0]?.producerId ?? null : undefined,
+    });
+    if (!purchase) return null;
+    if (purchase.kind === 'upgrade') {
+      this.purchaseAnyUpgrade(purchase.id);
+      return null;
+    }
+    const target = this.producers.find(p => p.id === purchase.id);
+    if (!target) return null;
+    const res = this.producerManager.purchase(target, this.resources, this.wallet);
+    if (!res.success) return null;
     this.resources = res.newResources;
     this.updateProductionRate();
+    // Buying the plan's next unit keeps the rest of the plan valid, so skip replanning
+    if (plan && this.goalPlan && plan.steps[0]?.producerId === target.id) {
+      this.goalPlan = { ...this.goalPlan, plan: this.consumePlanStep(plan), stale: false };
+    }
+    this.events.emit('autoBuyPurchased', { producerId: target.id, cost: res.cost, quantity: target.quantity, offline });
+    return target;
+  }
+
+  /** Fraction of normal production earned while offline (upgrades may raise this later) */
+  getOfflineEfficiency(): number {
+    return OFFLINE_CONFIG.baseEfficiency;
+  }
+
+  /**
+   * Credit a long gap as offline progress and record a report for the UI
+   * When auto-buy is on, the gap is stepped at the auto-buy interval so purchases
+   * compound exactly as they would have while playing.
+   *
+   * @param secondsAway - Real elapsed time in seconds
+   * @param now - Timestamp the gap ends at
+   */
+  private applyOfflineProgress(secondsAway: number, now: number): void {
+    const secondsCredited = Math.min(secondsAway, OFFLINE_CONFIG.maxSeconds);
+    const efficiency = this.getOfflineEfficiency();
+    const earningsBefore = this.runEarnings;
+    const producersBought: Record<string, number> = {};
+
+    const simulateAutoBuy = OFFLINE_CONFIG.simulateAutoBuy && this.autoBuyEnabled
+      && this.purchasedUpgrades.has(UPGRADE_IDS.AUTO_BUY);
+
+    if (simulateAutoBuy) {
+      const stepSeconds = this.getAutoBuyInterval() / 1000;
+      const start = now - secondsCredited * 1000;
+      this.autoBuyer.resetTimer(start);
+      let elapsed = 0;
+      while (elapsed < secondsCredited) {
+        const step = Math.min(stepSeconds, secondsCredited - elapsed);
+        elapsed += step;
+        this.earn(this.productionRate.mul(step * efficiency), 'offline');
+        this.produceCurrencies(step * efficiency);
+        this.applyUnlocks();
+        const bought = this.handleAutoBuy(start + elapsed * 1000, true);
+        if (bought) producersBought[bought.name] = (producersBought[bought.name] ?? 0) + 1;
+      }
+      this.autoBuyer.resetTimer(now);
+    } else {
+      this.earn(this.productionRate.mul(secondsCredited * efficiency), 'offline');
+      this.produceCurrencies(secondsCredited * efficiency);
+      this.applyUnlocks();
+    }
+
+    this.checkAchievements();
+    const resourcesEarned = this.runEarnings.sub(earningsBefore);
+    // Nothing to report if no production was running
+    if (!resourcesEarned.gt(0)) return;
+    this.offlineReport = { secondsAway, secondsCredited, efficiency, resourcesEarned, producersBought };
+  }
+
+  /**
+   * Collect an active clickable incident (Merged PR)
+   * The reward is worth rewardSeconds of current production, with a floor for the early game.
+   * @returns Resources awarded (0 if the incident is not active)
+   */
+  claimIncident(incidentId: string): BigNum {
+    const def = this.incidents.claim(incidentId);
+    if (def?.kind !== 'mergedPr') return BigNum.ZERO;
+    const reward = this.getIncidentReward(def);
+    this.earn(reward, 'incidents');
+    return reward;
+  }
+
+  private getIncidentReward(def: Extract<IncidentDef, { kind: 'mergedPr' }>): BigNum {
+    return BigNum.max(this.productionRate.mul(def.rewardSeconds), def.minReward).floor();
+  }
+
+  /** Active incidents with remaining time and names resolved for display */
+  private getIncidents() {
+    const now = this.clock.now();
+    return this.incidents.getActive().map(({ incident, def }) => ({
+      id: def.id,
+      kind: def.kind,
+      name: def.name,
+      description: def.description,
+      secondsRemaining: Math.max(0, Math.ceil((incident.endsAt - now) / 1000)),
+      durationSeconds: def.durationSeconds,
+      factor: def.kind === 'mergedPr' ? 1 : def.factor,
+      producerName: incident.producerId ? this.producers.find(p => p.id === incident.producerId)?.name ?? incident.producerId : null,
+      fixCommand: incident.fixCommand ?? null,
+      fixProgress: incident.fixProgress ?? 0,
+      reward: def.kind === 'mergedPr' ? this.getIncidentReward(def) : null,
+    }));
+  }
+
+  /** Clear the pending offline report once the player has seen it */
+  dismissOfflineReport(): void {
+    this.offlineReport = null;
   }
 
   /**
@@ -271,42 +848,150 @@ export class GameEngine {
     return {
       resources: this.resources,
       productionRate: this.productionRate,
-      producers: this.producers.map(u => ({
-        ...u,
-        cost: this.getProducerCost(u.id),
-        canAfford: this.canAffordProducer(u.id),
-        unlocked: this.unlockedProducers.has(u.id)
-      })),
+      currencies: this.getCurrencies(),
+      producers: this.producers.map(u => {
+        const bulkCount = this.getBuyCount(u.id);
+        const bulkCost = this.getProducerBulkCost(u.id, bulkCount);
+        const bulkExtraCost = this.getProducerExtraCosts(u.id, bulkCount);
+        return {
+          ...u,
+          cost: this.getProducerCost(u.id),
+          extraCost: this.getProducerExtraCosts(u.id),
+          canAfford: this.canAffordProducer(u.id),
+          unlocked: this.unlockedProducers.has(u.id),
+          bulkCount,
+          bulkCost,
+          bulkExtraCost,
+          canAffordBulk: bulkCost.gt(0) && this.resources.gte(bulkCost) && this.wallet.canAfford(bulkExtraCost),
+          effectiveRate: this.getEffectiveUnitRate(u),
+          bulkProductionGain: BigNum.from(this.producerManager.getMarginalRate(u, this.producers))
+            .mul(bulkCount * this.getGlobalMultiplier()),
+          synergy: this.getSynergyInfo(u),
+        };
+      }),
+      buyQuantity: this.buyQuantity,
       bestValueProducerId: this.bestValueProducerId,
       autoBuyEnabled: this.autoBuyEnabled,
       autoBuySpeedLevel: this.autoBuySpeedLevel,
       autoBuySpeedUpgradeCost: this.getAutoBuySpeedUpgradeCost(),
       canAffordAutoBuySpeedUpgrade: this.canAffordAutoBuySpeedUpgrade(),
       autoBuyInterval: Math.ceil(this.getAutoBuyInterval() / 1000), // in seconds
-      timeUntilNextAutoBuy: this.autoBuyer.getSecondsUntilNext(Date.now()),
+      timeUntilNextAutoBuy: this.autoBuyer.getSecondsUntilNext(this.clock.now()),
+      autoBuyStrategy: this.autoBuyer.getStrategy(),
+      autoBuyRules: this.getAutoBuyRules(),
+      upgradeBotUnlocked: this.purchasedUpgrades.has(UPGRADE_IDS.UPGRADE_BOT),
+      autoBuyUpgrades: this.autoBuyer.getUpgradeOptIns(),
       // Upgrades
       upgrades: this.getUpgrades(),
-      typingUnlocked: this.purchasedUpgrades.has(UPGRADES.TYPING.id),
-      challengesUnlocked: this.purchasedUpgrades.has(UPGRADES.CHALLENGES.id),
+      producerUpgrades: this.getProducerUpgrades(),
+      typingUnlocked: this.purchasedUpgrades.has(UPGRADE_IDS.TYPING),
+      challengesUnlocked: this.purchasedUpgrades.has(UPGRADE_IDS.CHALLENGES),
       // Typing stats
       ...this.typing.getUIState(),
       // Click power upgrade info
       clickPowerLevel: this.clickPowerLevel,
       clickValue: this.getClickValue(),
       clickPowerUpgradeCost: this.getClickPowerUpgradeCost(),
-      canAffordClickPowerUpgrade: this.canAffordClickPowerUpgrade()
+      canAffordClickPowerUpgrade: this.canAffordClickPowerUpgrade(),
+      // Prestige
+      runEarnings: this.runEarnings,
+      releasePoints: this.prestige.getReleasePoints(),
+      totalReleases: this.prestige.getTotalReleases(),
+      prestigeMultiplier: this.prestige.getMultiplier(),
+      pendingReleasePoints: this.prestige.getPointsForEarnings(this.runEarnings),
+      canShipToProduction: this.prestige.canRelease(this.runEarnings),
+      // Achievements
+      achievements: this.achievements.getUIState(),
+      achievementMultiplier: this.achievements.getMultiplier(),
+      // Offline progress
+      offlineReport: this.offlineReport,
+      // Lifetime statistics
+      stats: this.getStats(),
+      // Random incidents
+      incidents: this.getIncidents(),
+      // Goal planner
+      goal: this.getGoalInfo(),
+      // Research tree
+      research: this.getResearch(),
+      activeResearchId: this.research.getActive()?.id ?? null,
+    };
+  }
+
+  /** Lifetime statistics with producer names resolved for display */
+  private getStats() {
+    const stats = this.stats.getUIState();
+    return {
+      ...stats,
+      earnedByProducer: this.producers
+        .filter(p => p.id !== 'codingSession' && p.produces === 'resources')
+        .map(p => ({
+          producerId: p.id,
+          name: p.name,
+          amount: stats.earnedByProducer[p.id] ?? BigNum.ZERO,
+        })),
     };
   }
 
+  /**
+   * Resource and production history at one resolution, with chart markers in the same time range
+   * @param tier - 'seconds' (last minutes), 'minutes' (last hours) or 'hours' (last days)
+   */
+  getProductionHistory(tier: HistoryTierId): ProductionHistorySnapshot {
+    const samples = this.history.getSamples(tier);
+    const nameOf = (kind: string, id: string): string => {
+      if (kind === 'release') return 'Shipped to production';
+      if (kind === 'unlock') return `${this.producers.find(p => p.id === id)?.name ?? id} unlocked`;
+      const upgrade = this.content.upgrades.find(u => u.id === id) ?? this.content.producerUpgrades.find(u => u.id === id);
+      return upgrade?.name ?? id;
+    };
+    const markers = samples.length === 0 ? [] : this.history.getMarkers(samples[0].t)
+      .map(m => ({ t: m.t, kind: m.kind, label: nameOf(m.kind, m.id) }));
+    return { samples, markers };
+  }
+
+  /** Every term of the production rate, for the "Per Second" breakdown */
+  getProductionBreakdown(): ProductionBreakdown {
+    const now = this.clock.now();
+    const toLine = (m: Modifier): ModifierLine => ({
+      source: m.source,
+      type: m.type,
+      value: m.value,
+      secondsRemaining: m.expiresAt === undefined ? null : Math.max(0, Math.ceil((m.expiresAt - now) / 1000)),
+    });
+    const producers = this.producers
+      .filter(p => p.id !== 'codingSession' && p.produces === 'resources' && p.quantity > 0)
+      .map(p => ({
+        producerId: p.id,
+        name: p.name,
+        quantity: p.quantity,
+        baseRate: p.productionRate,
+        modifiers: this.modifiers.getModifiers('producer', p.id).map(toLine),
+        synergyMultiplier: this.producerManager.getSynergyMultiplier(p, this.producers),
+        total: BigNum.from(this.producerManager.getUnitRate(p, this.producers)).mul(p.quantity),
+      }));
+    return {
+      producers,
+      subtotal: this.producerManager.totalProduction(this.producers),
+      global: this.modifiers.getModifiers('global').map(toLine),
+      total: this.productionRate,
+    };
+  }
+
+  /** Count a new play session (called once the game is started or a slot is loaded) */
+  beginSession(): void {
+    this.stats.beginSession();
+  }
+
   /**
    * Serialize game state for saving
    *
-   * @returns Minimal save data object for localStorage
+   * @returns Versioned save data object for localStorage
    */
-  save() {
+  save(): SaveData {
     return {
-      resources: this.resources,
-      producers: this.producers.map(u => ({ id: u.id, quantity: u.quantity, totalSpent: u.totalSpent })),
+      version: SAVE_VERSION,
+      resources: this.resources.toString(),
+      producers: this.producers.map(u => ({ id: u.id, quantity: u.quantity, totalSpent: u.totalSpent.toString() })),
       lastUpdate: this.lastUpdate,
       autoBuyEnabled: this.autoBuyEnabled,
       autoBuySpeedLevel: this.autoBuySpeedLevel,
@@ -314,67 +999,72 @@ export class GameEngine {
       purchasedUpgrades: Array.from(this.purchasedUpgrades),
       clickPowerLevel: this.clickPowerLevel,
       challengesEnabled: this.challengesEnabled,
+      runEarnings: this.runEarnings.toString(),
+      releasePoints: this.prestige.getReleasePoints(),
+      totalReleases: this.prestige.getTotalReleases(),
+      unlockedAchievements: this.achievements.getUnlockedIds(),
+      ...this.typing.getProgressStats(),
+      stats: this.stats.save(),
+      history: this.history.save(),
+      incidents: this.incidents.save(),
+      autoBuySettings: this.autoBuyer.save(),
+      currencies: this.wallet.save(),
+      research: this.research.save(),
+      typing: this.typing.saveAnalytics(),
+    };
+  }
+
+  /** Ids the save schema validates against */
+  private getSaveSchemaContext(): SaveSchemaContext {
+    return {
+      producerIds: this.producers.map(p => p.id),
+      upgradeIds: [...this.content.upgrades.map(u => u.id), ...this.content.producerUpgrades.map(u => u.id)],
+      maxAutoBuySpeedLevel: this.getAutoBuySpeedMaxLevel(),
+      achievementIds: ACHIEVEMENTS.map(a => a.id),
+      research: this.content.research,
+      now: this.clock.now(),
     };
   }
 
   /**
    * Load game state from saved data
+   * Raw data is migrated to the current schema version and validated before any state changes.
+   *
+   * @param rawSave - Parsed JSON from storage (any schema version)
+   * @param options.repair - Load a repaired copy (invalid fields replaced with defaults) instead of throwing
+   * @throws SaveValidationError if the save is invalid and repair is not requested
    */
-  load(saveData: {
-    resources?: number;
-    producers?: Array<{ id: string; quantity: number; totalSpent?: number }>;
-    lastUpdate?: number;
-    autoBuyEnabled?: boolean;
-    autoBuyUnlocked?: boolean; // Legacy - migrate to purchasedUpgrades
-    autoBuySpeedLevel?: number;
-    unlockedProducers?: string[];
-    typingUnlocked?: boolean; // Legacy - migrate to purchasedUpgrades
-    purchasedUpgrades?: string[];
-    clickPowerLevel?: number;
-    challengesEnabled?: boolean;
-  }): void {
-    if (saveData.resources !== undefined) {
-      this.resources = saveData.resources;
-    }
-    if (saveData.producers) {
-      for (const savedProducer of saveData.producers) {
-        const producer = this.producers.find(u => u.id === savedProducer.id);
-        if (producer) {
-          producer.quantity = savedProducer.quantity;
-          producer.totalSpent = savedProducer.totalSpent ?? producer.totalSpent ?? 0;
-        }
-      }
-      this.updateProductionRate();
-    }
-    if (saveData.lastUpdate) {
-      this.lastUpdate = saveData.lastUpdate;
-    }
-    if (saveData.autoBuyEnabled !== undefined) {
-      this.autoBuyEnabled = saveData.autoBuyEnabled;
-    }
-    if (saveData.autoBuySpeedLevel !== undefined) {
-      this.autoBuySpeedLevel = saveData.autoBuySpeedLevel;
-    }
-    if (saveData.unlockedProducers) {
-      this.unlockedProducers = new Set(saveData.unlockedProducers);
-    }
-    if (saveData.purchasedUpgrades) {
-      this.purchasedUpgrades = new Set(saveData.purchasedUpgrades);
-    }
-    if (saveData.clickPowerLevel !== undefined) {
-      this.clickPowerLevel = saveData.clickPowerLevel;
-    }
-    if (saveData.challengesEnabled !== undefined) {
-      this.challengesEnabled = saveData.challengesEnabled;
-      this.typing.setChallengesEnabled(this.challengesEnabled);
-    }
-    // Migrate old save format
-    if (saveData.autoBuyUnlocked) {
-      this.purchasedUpgrades.add(UPGRADES.AUTO_BUY.id);
-    }
-    if (saveData.typingUnlocked) {
-      this.purchasedUpgrades.add(UPGRADES.TYPING.id);
+  load(rawSave: unknown, options: { repair?: boolean } = {}): void {
+    const saveData = parseSave(rawSave, this.getSaveSchemaContext(), options);
+
+    this.resources = BigNum.from(saveData.resources);
+    this.runEarnings = BigNum.from(saveData.runEarnings);
+    this.prestige.load(saveData);
+    this.achievements.load(saveData.unlockedAchievements);
+    this.typing.loadProgress(saveData);
+    this.stats.load(saveData.stats);
+    this.history.load(saveData.history);
+    this.incidents.load(saveData.incidents, this.clock.now());
+    this.autoBuyer.load(saveData.autoBuySettings);
+    this.wallet.load(saveData.currencies);
+    this.research.load(saveData.research);
+    this.typing.loadAnalytics(saveData.typing);
+    for (const producer of this.producers) {
+      const savedProducer = saveData.producers.find(p => p.id === producer.id);
+      producer.quantity = savedProducer?.quantity ?? 0;
+      producer.totalSpent = BigNum.from(savedProducer?.totalSpent ?? 0);
     }
+    this.lastUpdate = saveData.lastUpdate;
+    this.autoBuyEnabled = saveData.autoBuyEnabled;
+    this.autoBuySpeedLevel = saveData.autoBuySpeedLevel;
+    this.unlockedProducers = new Set(saveData.unlockedProducers);
+    this.purchasedUpgrades = new Set(saveData.purchasedUpgrades);
+    this.clickPowerLevel = saveData.clickPowerLevel;
+    this.syncModifiers();
+    this.challengesEnabled = saveData.challengesEnabled;
+    this.typing.setChallengesEnabled(this.challengesEnabled);
+    this.offlineReport = null;
+    this.updateProductionRate();
   }
 
   /**
@@ -389,19 +1079,20 @@ export class GameEngine {
     }
 
     // Find upgrade definition
-    const upgradeEntry = Object.values(UPGRADES).find(u => u.id === upgradeId);
+    const upgradeEntry = this.content.upgrades.find(u => u.id === upgradeId);
     if (!upgradeEntry) {
       return false;
     }
 
     // Check if can afford
-    if (this.resources < upgradeEntry.cost) {
+    if (this.resources.lt(upgradeEntry.cost)) {
       return false;
     }
 
     // Purchase
-    this.resources -= upgradeEntry.cost;
+    this.resources = this.resources.sub(upgradeEntry.cost);
     this.purchasedUpgrades.add(upgradeId);
+    this.events.emit('upgradePurchased', { upgradeId, kind: 'upgrade', cost: BigNum.from(upgradeEntry.cost) });
     return true;
   }
 
@@ -409,30 +1100,142 @@ export class GameEngine {
    * Get all available upgrades with purchase status
    */
   getUpgrades() {
-    return Object.values(UPGRADES).map(upgrade => ({
+    return this.content.upgrades.map(upgrade => ({
       ...upgrade,
       purchased: this.purchasedUpgrades.has(upgrade.id),
-      canAfford: this.resources >= upgrade.cost && !this.purchasedUpgrades.has(upgrade.id)
+      canAfford: this.resources.gte(upgrade.cost) && !this.purchasedUpgrades.has(upgrade.id)
     }));
   }
 
+  /**
+   * Purchase a producer upgrade by ID
+   * Requires owning the upgrade's requiredOwned count of its producer
+   * @returns true if purchase succeeded
+   */
+  purchaseProducerUpgrade(upgradeId: string): boolean {
+    const upgrade = this.content.producerUpgrades.find(u => u.id === upgradeId);
+    if (!upgrade || this.purchasedUpgrades.has(upgradeId)) return false;
+    if (!this.isProducerUpgradeUnlocked(upgrade.producerId, upgrade.requiredOwned)) return false;
+    if (this.resources.lt(upgrade.cost)) return false;
+
+    this.resources = this.resources.sub(upgrade.cost);
+    this.purchasedUpgrades.add(upgradeId);
+    this.syncModifiers();
+    this.updateProductionRate();
+    this.calculateBestValue();
+    this.events.emit('upgradePurchased', { upgradeId, kind: 'producerUpgrade', cost: BigNum.from(upgrade.cost) });
+    return true;
+  }
+
+  /** Secondary currency part of a research node's cost */
+  private getResearchExtraCosts(def: ResearchDef): CurrencyAmounts {
+    const costs: CurrencyAmounts = {};
+    for (const id of SECONDARY_CURRENCIES) {
+      const amount = def.extraCosts[id];
+      if (amount) costs[id] = BigNum.from(amount);
+    }
+    return costs;
+  }
+
+  /**
+   * Pay for a research node and start researching it
+   * Only one node is researched at a time; its prerequisites must be finished and no other
+   * node of its exclusive group chosen this run.
+   * @returns true if research started
+   */
+  startResearch(researchId: string): boolean {
+    const def = this.research.getDef(researchId);
+    if (!def || !this.research.canStart(researchId)) return false;
+    const extraCosts = this.getResearchExtraCosts(def);
+    if (this.resources.lt(def.cost) || !this.wallet.spend(extraCosts)) return false;
+
+    this.resources = this.resources.sub(def.cost);
+    return this.research.start(researchId, this.clock.now());
+  }
+
+  /**
+   * Research tree nodes with their status, costs and progress for the UI
+   */
+  private getResearch() {
+    const now = this.clock.now();
+    const active = this.research.getActive();
+    const producerName = (id: string) => this.producers.find(p => p.id === id)?.name ?? id;
+    return this.content.research.map(def => {
+      const status = this.research.getStatus(def.id);
+      const extraCost = this.getResearchExtraCosts(def);
+      const running = active?.id === def.id ? active : null;
+      return {
+        id: def.id,
+        name: def.name,
+        description: def.description,
+        requires: def.requires,
+        exclusiveGroup: def.exclusiveGroup ?? null,
+        researchSeconds: def.researchSeconds,
+        status,
+        cost: BigNum.from(def.cost),
+        extraCost,
+        canAfford: this.research.canStart(def.id) && this.resources.gte(def.cost) && this.wallet.canAfford(extraCost),
+        secondsRemaining: running ? Math.max(0, Math.ceil((running.endsAt - now) / 1000)) : null,
+        progress: running ? Math.min(1, (now - running.startedAt) / (running.endsAt - running.startedAt)) : status === 'completed' ? 1 : 0,
+        effects: def.effects.map(e => `${e.type === 'click' ? 'Clicks' : producerName(e.producerId)} ×${e.factor}`),
+      };
+    });
+  }
+
+  private isProducerUpgradeUnlocked(producerId: string, requiredOwned: number): boolean {
+    const producer = this.producers.find(p => p.id === producerId);
+    return !!producer && producer.quantity >= requiredOwned;
+  }
+
+  /**
+   * Get all producer upgrades with unlock and purchase status
+   */
+  getProducerUpgrades() {
+    return this.content.producerUpgrades.map(upgrade => {
+      const unlocked = this.isProducerUpgradeUnlocked(upgrade.producerId, upgrade.requiredOwned);
+      const purchased = this.purchasedUpgrades.has(upgrade.id);
+      return {
+        ...upgrade,
+        producerName: this.producers.find(p => p.id === upgrade.producerId)?.name ?? upgrade.producerId,
+        unlocked,
+        purchased,
+        canAfford: unlocked && !purchased && this.resources.gte(upgrade.cost),
+      };
+    });
+  }
+
+  /** Content definition of a repeatable upgrade (presence is guaranteed by content validation) */
+  private getRepeatable(id: string): RepeatableDef {
+    const def = this.content.repeatables.find(r => r.id === id);
+    if (!def) throw new Error(`Content is missing repeatable upgrade ${id}`);
+    return def;
+  }
+
+  /** Cost of the next level of a repeatable upgrade: baseCost × costMultiplier^level */
+  private getRepeatableCost(id: string, level: number): BigNum {
+    const def = this.getRepeatable(id);
+    return BigNum.from(def.costMultiplier).pow(level).mul(def.baseCost).floor();
+  }
+
   /**
    * Get the cost of the next auto-buy speed upgrade
-   * Base cost: 10000, multiplier: 1.5
    */
-  getAutoBuySpeedUpgradeCost(): number {
-    const baseCost = 10000;
-    const multiplier = 1.5;
-    return Math.floor(baseCost * Math.pow(multiplier, this.autoBuySpeedLevel));
+  getAutoBuySpeedUpgradeCost(): BigNum {
+    return this.getRepeatableCost(REPEATABLE_IDS.AUTO_BUY_SPEED, this.autoBuySpeedLevel);
+  }
+
+  /** Highest auto-buy speed level (30s - 14*2s = 2s minimum interval by default) */
+  private getAutoBuySpeedMaxLevel(): number {
+    return this.getRepeatable(REPEATABLE_IDS.AUTO_BUY_SPEED).maxLevel ?? 14;
   }
 
   /**
    * Check if player can afford the next auto-buy speed upgrade
    */
   canAffordAutoBuySpeedUpgrade(): boolean {
-    if (!this.purchasedUpgrades.has(UPGRADES.AUTO_BUY.id)) return false;
+    if (!this.purchasedUpgrades.has(UPGRADE_IDS.AUTO_BUY)) return false;
     const cost = this.getAutoBuySpeedUpgradeCost();
-    return this.resources >= cost;
+    return this.resources.gte(cost);
   }
 
   /**
@@ -441,16 +1244,18 @@ export class GameEngine {
    * @returns true if purchase succeeded
    */
   purchaseAutoBuySpeedUpgrade(): boolean {
-    if (!this.purchasedUpgrades.has(UPGRADES.AUTO_BUY.id)) return false;
+    if (!this.purchasedUpgrades.has(UPGRADE_IDS.AUTO_BUY)) return false;
 
     const cost = this.getAutoBuySpeedUpgradeCost();
-    if (this.resources < cost) return false;
+    if (this.resources.lt(cost)) return false;
 
-    // Cap at level 14 (30s - 14*2s = 2s minimum)
-    if (this.autoBuySpeedLevel >= 14) return false;
+    if (this.autoBuySpeedLevel >= this.getAutoBuySpeedMaxLevel()) return false;
 
-    this.resources -= cost;
+    this.resources = this.resources.sub(cost);
     this.autoBuySpeedLevel++;
+    this.events.emit('upgradePurchased', {
+      upgradeId: REPEATABLE_IDS.AUTO_BUY_SPEED, kind: 'repeatable', cost, level: this.autoBuySpeedLevel,
+    });
 
     return true;
   }
@@ -466,22 +1271,22 @@ export class GameEngine {
     return Math.max(minInterval, baseInterval - reduction);
   }
 
-  /** Repeatable click power upgrade cost (base 10000, *2 each level) */
-  getClickPowerUpgradeCost(): number {
-    const baseCost = 10000;
-    const multiplier = 2; // doubles each purchase
-    return Math.floor(baseCost * Math.pow(multiplier, this.clickPowerLevel));
+  /** Repeatable click power upgrade cost */
+  getClickPowerUpgradeCost(): BigNum {
+    return this.getRepeatableCost(REPEATABLE_IDS.CLICK_POWER, this.clickPowerLevel);
   }
 
   canAffordClickPowerUpgrade(): boolean {
-    return this.resources >= this.getClickPowerUpgradeCost();
+    return this.resources.gte(this.getClickPowerUpgradeCost());
   }
 
   purchaseClickPowerUpgrade(): boolean {
     const cost = this.getClickPowerUpgradeCost();
-    if (this.resources < cost) return false;
-    this.resources -= cost;
+    if (this.resources.lt(cost)) return false;
+    this.resources = this.resources.sub(cost);
     this.clickPowerLevel++;
+    this.syncModifiers();
+    this.events.emit('upgradePurchased', { upgradeId: REPEATABLE_IDS.CLICK_POWER, kind: 'repeatable', cost, level: this.clickPowerLevel });
     return true;
   }
 
@@ -489,42 +1294,277 @@ export class GameEngine {
    * Toggle auto-buy on/off
    */
   toggleAutoBuy(): void {
-    if (!this.purchasedUpgrades.has(UPGRADES.AUTO_BUY.id)) return;
+    if (!this.purchasedUpgrades.has(UPGRADE_IDS.AUTO_BUY)) return;
     this.autoBuyEnabled = !this.autoBuyEnabled;
     if (this.autoBuyEnabled) {
-      this.lastUpdate = Date.now();
+      this.lastUpdate = this.clock.now();
     }
   }
 
+  /** Choose how the auto-buyer picks producers (kept across releases) */
+  setAutoBuyStrategy(strategy: AutoBuyStrategyId): void {
+    this.autoBuyer.setStrategy(strategy);
+  }
+
+  /**
+   * Change a producer's auto-buy rule
+   * @param rule - Fields to change: enabled, maxOwned (non-negative integer or null for no limit), reserve
+   * @returns false if the producer is unknown or a value is invalid
+   */
+  setAutoBuyRule(producerId: string, rule: { enabled?: boolean; maxOwned?: number | null; reserve?: BigNumSource }): boolean {
+    if (producerId === 'codingSession' || !this.producers.some(p => p.id === producerId)) return false;
+    if (rule.maxOwned != null && !(Number.isInteger(rule.maxOwned) && rule.maxOwned >= 0)) return false;
+    const update: Partial<AutoBuyRule> = {};
+    if (rule.enabled !== undefined) update.enabled = rule.enabled;
+    if (rule.maxOwned !== undefined) update.maxOwned = rule.maxOwned;
+    if (rule.reserve !== undefined) {
+      const reserve = BigNum.tryFrom(rule.reserve);
+      if (!reserve || reserve.isNegative()) return false;
+      update.reserve = reserve;
+    }
+    this.autoBuyer.setRule(producerId, update);
+    return true;
+  }
+
+  /** Auto-buy rule of every producer, for the settings panel */
+  private getAutoBuyRules() {
+    return this.producers
+      .filter(p => p.id !== 'codingSession')
+      .map(p => ({ producerId: p.id, name: p.name, unlocked: this.unlockedProducers.has(p.id), quantity: p.quantity, ...this.autoBuyer.getRule(p.id) }));
+  }
+
+  /** Whether an id names an upgrade the Upgrade Bot can buy (one-time, producer or repeatable) */
+  private isBotUpgradeId(upgradeId: string): boolean {
+    return upgradeId === REPEATABLE_IDS.CLICK_POWER || upgradeId === REPEATABLE_IDS.AUTO_BUY_SPEED
+      || this.content.upgrades.some(u => u.id === upgradeId)
+      || this.content.producerUpgrades.some(u => u.id === upgradeId);
+  }
+
+  /**
+   * Opt an upgrade in or out of Upgrade Bot purchases (kept across releases)
+   * @returns false if the id is not a known upgrade
+   */
+  setUpgradeAutoBuy(upgradeId: string, enabled: boolean): boolean {
+    if (!this.isBotUpgradeId(upgradeId)) return false;
+    this.autoBuyer.setUpgradeOptIn(upgradeId, enabled);
+    return true;
+  }
+
+  /**
+   * Opted-in upgrades that are currently for sale, with their next cost
+   * (none until the Upgrade Bot is purchased)
+   */
+  private getUpgradeBotCandidates(): UpgradeCandidate[] {
+    if (!this.purchasedUpgrades.has(UPGRADE_IDS.UPGRADE_BOT)) return [];
+    const candidates: UpgradeCandidate[] = [];
+    for (const id of this.autoBuyer.getUpgradeOptIns()) {
+      if (id === REPEATABLE_IDS.CLICK_POWER) {
+        candidates.push({ id, cost: this.getClickPowerUpgradeCost() });
+      } else if (id === REPEATABLE_IDS.AUTO_BUY_SPEED) {
+        if (this.autoBuySpeedLevel < this.getAutoBuySpeedMaxLevel()) candidates.push({ id, cost: this.getAutoBuySpeedUpgradeCost() });
+      } else if (!this.purchasedUpgrades.has(id)) {
+        const upgrade = this.content.upgrades.find(u => u.id === id);
+        const producerUpgrade = this.content.producerUpgrades.find(u => u.id === id);
+        if (upgrade) {
+          candidates.push({ id, cost: BigNum.from(upgrade.cost) });
+        } else if (producerUpgrade && this.isProducerUpgradeUnlocked(producerUpgrade.producerId, producerUpgrade.requiredOwned)) {
+          candidates.push({ id, cost: BigNum.from(producerUpgrade.cost) });
+        }
+      }
+    }
+    return candidates;
+  }
+
+  /** Buy any kind of upgrade by id through its own purchase method */
+  private purchaseAnyUpgrade(upgradeId: string): boolean {
+    if (upgradeId === REPEATABLE_IDS.CLICK_POWER) return this.purchaseClickPowerUpgrade();
+    if (upgradeId === REPEATABLE_IDS.AUTO_BUY_SPEED) return this.purchaseAutoBuySpeedUpgrade();
+    if (this.content.producerUpgrades.some(u => u.id === upgradeId)) return this.purchaseProducerUpgrade(upgradeId);
+    return this.purchaseUpgrade(upgradeId);
+  }
+
+  /**
+   * Resolve a goal into the resources to hold and the producer units to own
+   * @returns null if the goal is unknown or already done (producer unlocked, upgrade bought)
+   */
+  private resolveGoal(goal: PlannerGoal): GoalTarget | null {
+    if (goal.type === 'resources') {
+      const amount = BigNum.tryFrom(goal.amount);
+      return amount?.gt(0) ? { amount } : null;
+    }
+    if (goal.type === 'unlock') {
+      const producer = this.producers.find(p => p.id === goal.producerId);
+      if (!producer?.unlockThreshold || this.unlockedProducers.has(producer.id)) return null;
+      return { amount: BigNum.from(producer.unlockThreshold) };
+    }
+    if (this.purchasedUpgrades.has(goal.upgradeId)) return null;
+    const upgrade = this.content.upgrades.find(u => u.id === goal.upgradeId);
+    if (upgrade) return { amount: BigNum.from(upgrade.cost) };
+    const producerUpgrade = this.content.producerUpgrades.find(u => u.id === goal.upgradeId);
+    if (!producerUpgrade) return null;
+    return {
+      amount: BigNum.from(producerUpgrade.cost),
+      required: { producerId: producerUpgrade.producerId, count: producerUpgrade.requiredOwned },
+    };
+  }
+
+  /**
+   * Plan the fastest producer purchases towards a goal (null clears it)
+   * Upgrade goals are reached once the upgrade is affordable; the player still buys it.
+   * @param options.follow - let auto-buy buy the plan's producers (and nothing else) until the goal is reached
+   * @returns false if the goal is unknown or already done
+   */
+  setGoal(goal: PlannerGoal | null, options: { follow?: boolean } = {}): boolean {
+    this.goalPlan = null;
+    if (!goal) {
+      this.goal = null;
+      return true;
+    }
+    const target = this.resolveGoal(goal);
+    if (!target) return false;
+    this.goal = { goal, target, follow: options.follow ?? false };
+    this.refreshGoalPlan(this.clock.now());
+    return true;
+  }
+
+  /** Planner workload since the engine was created (the balance simulator checks it stays bounded) */
+  getPlannerStats(): PlannerStats {
+    return this.planner.getStats();
+  }
+
+  /** Start or stop auto-buy following the current goal's plan */
+  setGoalFollow(follow: boolean): void {
+    if (this.goal) this.goal.follow = follow;
+  }
+
+  /**
+   * Recompute the goal's plan when there is none, it is older than PLANNER_CONFIG.refreshMs, or
+   * production changed and staleRefreshMs has passed. Planning is a beam search, so it runs from
+   * update() and setGoal() only; getState() reads the cached plan.
+   */
+  private refreshGoalPlan(now: number): void {
+    if (!this.goal) return;
+    const age = this.goalPlan ? now - this.goalPlan.plannedAt : Infinity;
+    if (age >= PLANNER_CONFIG.refreshMs || (this.goalPlan?.stale && age >= PLANNER_CONFIG.staleRefreshMs)) {
+      const globalAdd = this.modifiers.getAdditive('global');
+      const globalMult = this.modifiers.getMultiplier('global');
+      const plan = this.planner.plan({
+        resources: this.resources,
+        producers: this.producers,
+        unlocked: this.unlockedProducers,
+        applyGlobal: (production) => production.add(globalAdd).mul(globalMult),
+      }, this.goal.target);
+      this.goalPlan = { plan, plannedAt: now, stale: false };
+    }
+  }
+
+  /** The plan minus the unit auto-buy just bought from its first step */
+  private consumePlanStep(plan: GoalPlan): GoalPlan {
+    const [first, ...rest] = plan.steps;
+    if (!first) return plan;
+    const unitCost = first.cost.div(first.count);
+    const steps = first.count > 1 ? [{ ...first, count: first.count - 1, cost: first.cost.sub(unitCost) }, ...rest] : rest;
+    return { ...plan, steps };
+  }
+
+  /** Clear the goal once it is reached */
+  private checkGoal(): void {
+    if (!this.goal) return;
+    const { goal, target } = this.goal;
+    const required = target.required;
+    const owned = required ? this.producers.find(p => p.id === required.producerId)?.quantity ?? 0 : 0;
+    if (this.resources.lt(target.amount) || (required && owned < required.count)) return;
+    this.goal = null;
+    this.goalPlan = null;
+    this.events.emit('goalReached', { goal });
+  }
+
+  /** Goal and plan for the planner panel, with times counted from now */
+  private getGoalInfo() {
+    if (!this.goal || !this.goalPlan) return null;
+    const { plan } = this.goalPlan;
+    const elapsed = (this.clock.now() - this.goalPlan.plannedAt) / 1000;
+    const { goal } = this.goal;
+    const targetName = goal.type === 'unlock'
+      ? this.producers.find(p => p.id === goal.producerId)?.name ?? goal.producerId
+      : goal.type === 'upgrade'
+        ? [...this.content.upgrades, ...this.content.producerUpgrades].find(u => u.id === goal.upgradeId)?.name ?? goal.upgradeId
+        : null;
+    return {
+      goal,
+      targetName,
+      following: this.goal.follow,
+      steps: plan.steps.map(step => ({ ...step, startsInSeconds: Math.max(0, step.startsInSeconds - elapsed) })),
+      etaSeconds: Math.max(0, plan.etaSeconds - elapsed),
+      waitOnlySeconds: Math.max(0, plan.waitOnlySeconds - elapsed),
+    };
+  }
+
   /**
    * Toggle challenges on/off
    */
   toggleChallenges(): void {
-    if (!this.purchasedUpgrades.has(UPGRADES.CHALLENGES.id)) return;
+    if (!this.purchasedUpgrades.has(UPGRADE_IDS.CHALLENGES)) return;
     this.challengesEnabled = !this.challengesEnabled;
     this.typing.setChallengesEnabled(this.challengesEnabled);
   }
 
   /**
-   * Reset all game progress to initial state
+   * Ship to Production: convert run earnings into Release Points and restart the run.
+   * Release Points (and their production multiplier) survive the reset.
+   * @returns Number of Release Points granted (0 if not eligible)
+   */
+  shipToProduction(): number {
+    const points = this.prestige.release(this.runEarnings);
+    if (points <= 0) return 0;
+    this.resetRun();
+    this.events.emit('gameReset', { reason: 'release', releasePointsGranted: points });
+    return points;
+  }
+
+  /**
+   * Reset all game progress to initial state, including Release Points and achievements
    */
   reset(): void {
-    this.resources = 0;
-    this.productionRate = 0;
+    this.prestige.reset();
+    this.achievements.reset();
+    this.typing.loadProgress({ wordsTyped: 0, completedChallenges: 0 });
+    this.stats.reset();
+    this.typing.resetAnalytics();
+    this.history.reset();
+    this.autoBuyer.resetSettings();
+    this.resetRun();
+    this.events.emit('gameReset', { reason: 'reset', releasePointsGranted: 0 });
+  }
+
+  /** Reset everything that belongs to a single run (prestige currency is untouched) */
+  private resetRun(): void {
+    this.resources = BigNum.ZERO;
+    this.wallet.reset();
+    this.runEarnings = BigNum.ZERO;
+    this.productionRate = BigNum.ZERO;
     this.autoBuyEnabled = false;
     this.autoBuySpeedLevel = 0;
-    this.lastUpdate = Date.now();
+    this.lastUpdate = this.clock.now();
 
     for (const producer of this.producers) {
       producer.quantity = 0;
-      producer.totalSpent = 0;
+      producer.totalSpent = BigNum.ZERO;
     }
+    this.currencyRates = this.getCurrencyRates();
 
     // Typing state reset handled by TypingEngine (runtime)
 
     this.unlockedProducers = new Set<string>(['codingSession']);
     this.purchasedUpgrades = new Set<string>();
+    this.research.reset();
+    this.incidents.reset(this.lastUpdate);
+    this.autoBuyer.resetRotation();
     this.clickPowerLevel = 0;
+    this.syncModifiers();
     this.challengesEnabled = true;
+    this.goal = null;
+    this.goalPlan = null;
+    this.offlineReport = null;
   }
 }
@@ -0,0 +1,89 @@
+import { ACHIEVEMENTS } from '../../constants/achievements';
+import type { AchievementCondition, AchievementDef } from '../../constants/achievements';
+import type { BigNum } from '../../utils/BigNum';
+
+/** Snapshot of engine state that achievement conditions are evaluated against */
+export interface AchievementContext {
+  resources: BigNum;
+  producerQuantities: Record<string, number>;
+  wordsTyped: number;
+  completedChallenges: number;
+  /** Purchased upgrade ids */
+  purchasedUpgrades: Set<string>;
+  /** Ids of the one-time upgrades on offer */
+  oneTimeUpgradeIds: string[];
+}
+
+export class AchievementManager {
+  private unlocked = new Set<string>();
+  private readonly defs: AchievementDef[];
+
+  constructor(defs: AchievementDef[] = ACHIEVEMENTS) {
+    this.defs = defs;
+  }
+
+  /** Unlock any newly satisfied achievements; returns ids unlocked this call */
+  evaluate(ctx: AchievementContext): string[] {
+    const newlyUnlocked: string[] = [];
+    for (const def of this.defs) {
+      if (this.unlocked.has(def.id)) continue;
+      if (this.isMet(def.condition, ctx)) {
+        this.unlocked.add(def.id);
+        newlyUnlocked.push(def.id);
+      }
+    }
+    return newlyUnlocked;
+  }
+
+  private isMet(condition: AchievementCondition, ctx: AchievementContext): boolean {
+    switch (condition.type) {
+      case 'resources':
+        return ctx.resources.gte(condition.amount);
+      case 'producer':
+        return (ctx.producerQuantities[condition.producerId] ?? 0) >= condition.quantity;
+      case 'totalProducers':
+        return Object.values(ctx.producerQuantities).reduce((sum, q) => sum + q, 0) >= condition.quantity;
+      case 'words':
+        return ctx.wordsTyped >= condition.amount;
+      case 'challenges':
+        return ctx.completedChallenges >= condition.amount;
+      case 'upgrade':
+        return ctx.purchasedUpgrades.has(condition.upgradeId);
+      case 'upgradeCount':
+        return ctx.oneTimeUpgradeIds.filter(id => ctx.purchasedUpgrades.has(id)).length >= condition.amount;
+      case 'allUpgrades':
+        return ctx.oneTimeUpgradeIds.length > 0 && ctx.oneTimeUpgradeIds.every(id => ctx.purchasedUpgrades.has(id));
+    }
+  }
+
+  /** Global production multiplier from unlocked achievements */
+  getMultiplier(): number {
+    return 1 + this.defs.reduce((sum, def) => this.unlocked.has(def.id) ? sum + def.bonus : sum, 0);
+  }
+
+  getUnlockedIds(): string[] {
+    return Array.from(this.unlocked);
+  }
+
+  getUIState() {
+    return this.defs.map(def => {
+      const unlocked = this.unlocked.has(def.id);
+      return {
+        id: def.id,
+        name: def.name,
+        description: def.description,
+        bonus: def.bonus,
+        hidden: !!def.hidden,
+        unlocked,
+      };
+    });
+  }
+
+  load(ids: string[]): void {
+    this.unlocked = new Set(ids.filter(id => this.defs.some(d => d.id === id)));
+  }
+
+  reset(): void {
+    this.unlocked = new Set<string>();
+  }
+}
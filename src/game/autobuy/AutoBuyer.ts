@@ -1,13 +1,85 @@
 import type { ProducerTier } from '../GameEngine';
+import { systemClock } from '../clock/Clock';
+import type { Clock } from '../clock/Clock';
+import { BigNum } from '../../utils/BigNum';
+import type { SavedAutoBuySettings } from '../../types/game.types';
+import { DEFAULT_AUTO_BUY_STRATEGY, selectPurchase } from './autoBuyStrategies';
+import type { AutoBuyStrategyId, PurchaseCandidate } from './autoBuyStrategies';
+
+/** Per-producer auto-buy limits */
+export interface AutoBuyRule {
+  enabled: boolean;
+  /** Stop buying once this many are owned (null = no limit) */
+  maxOwned: number | null;
+  /** Only buy while at least this many resources would be left afterwards */
+  reserve: BigNum;
+}
+
+const DEFAULT_RULE: AutoBuyRule = { enabled: true, maxOwned: null, reserve: BigNum.ZERO };
+
+/** An opted-in upgrade the Upgrade Bot may buy right now */
+export interface UpgradeCandidate {
+  id: string;
+  cost: BigNum;
+}
+
+/** What the auto-buyer decided to buy */
+export type AutoBuyPurchase = { kind: 'producer'; id: string } | { kind: 'upgrade'; id: string };
+
+/** Purchase queue key of the producer strategy (upgrades are queued as "upgrade:<id>") */
+const PRODUCER_QUEUE_KEY = 'producers';
+const upgradeQueueKey = (id: string) => `upgrade:${id}`;
+
+/** What the auto-buyer needs to know about the producers and upgrades it may buy */
+export interface AutoBuyMarket {
+  resources: BigNum;
+  /** Producers in tier order */
+  producers: ProducerTier[];
+  isUnlocked: (id: string) => boolean;
+  getCost: (id: string) => BigNum;
+  /** Whether the wallet covers a producer's secondary currency costs (producers it does not are skipped) */
+  canAffordExtraCosts: (p: ProducerTier) => boolean;
+  /** Resource production gained by one more unit (before global modifiers; other currencies at their resource value) */
+  getGain: (p: ProducerTier) => number;
+  /** Current production per second */
+  income: BigNum;
+  globalMultiplier: number;
+  /** Opted-in upgrades for sale (empty unless the Upgrade Bot is owned) */
+  upgrades: UpgradeCandidate[];
+  /** Producer a followed goal plan buys next, replacing the strategy (null = buy no producer) */
+  plannedProducerId?: string | null;
+}
 
 export class AutoBuyer {
   private enabled = false;
   private speedLevel = 0;
-  private lastBuy = Date.now();
+  private readonly clock: Clock;
+  private lastBuy: number;
+  private strategy: AutoBuyStrategyId = DEFAULT_AUTO_BUY_STRATEGY;
+  private rules: Record<string, AutoBuyRule> = {};
+  /** Last producer bought, where round-robin continues */
+  private lastPurchasedId: string | null = null;
+  /** Upgrade ids the Upgrade Bot may buy */
+  private upgradeOptIns = new Set<string>();
+  /**
+   * Shared purchase queue: when each entry (the producer strategy or an upgrade) started waiting.
+   * Entries are served oldest first and go to the back after a purchase.
+   */
+  private queuedAt = new Map<string, number>();
+
+  constructor(clock: Clock = systemClock) {
+    this.clock = clock;
+    this.lastBuy = clock.now();
+  }
 
   toggle(): void {
     this.enabled = !this.enabled;
-    if (this.enabled) this.lastBuy = Date.now();
+    if (this.enabled) this.lastBuy = this.clock.now();
+  }
+
+  /** Restart the interval countdown from the given timestamp */
+  resetTimer(at: number): void {
+    this.lastBuy = at;
   }
 
   setEnabled(val: boolean): void {
@@ -39,34 +111,170 @@ export class AutoBuyer {
     return Math.ceil(remaining / 1000);
   }
 
-  /** Returns the id of the purchased producer, or null if none */
-  tryPurchaseBest(now: number, resources: number, producers: ProducerTier[], getCost: (id: string) => number): string | null {
+  getStrategy(): AutoBuyStrategyId {
+    return this.strategy;
+  }
+
+  setStrategy(strategy: AutoBuyStrategyId): void {
+    this.strategy = strategy;
+  }
+
+  getRule(producerId: string): AutoBuyRule {
+    return this.rules[producerId] ?? DEFAULT_RULE;
+  }
+
+  /** Update some fields of a producer's rule */
+  setRule(producerId: string, rule: Partial<AutoBuyRule>): void {
+    this.rules[producerId] = { ...this.getRule(producerId), ...rule };
+  }
+
+  isUpgradeOptedIn(upgradeId: string): boolean {
+    return this.upgradeOptIns.has(upgradeId);
+  }
+
+  getUpgradeOptIns(): string[] {
+    return [...this.upgradeOptIns];
+  }
+
+  /** Allow or stop the Upgrade Bot buying an upgrade */
+  setUpgradeOptIn(upgradeId: string, enabled: boolean): void {
+    if (enabled) this.upgradeOptIns.add(upgradeId);
+    else this.upgradeOptIns.delete(upgradeId);
+  }
+
+  /**
+   * Producers the rules allow buying, with their resource cost, gain and budget
+   * (manual coding, locked producers and producers short of Commits, Coffee or Tech Debt are never candidates)
+   * @param committed - Resources already promised to queue entries ahead of the producers
+   */
+  private getCandidates(market: AutoBuyMarket, committed: BigNum): PurchaseCandidate[] {
+    const candidates: PurchaseCandidate[] = [];
+    market.producers.forEach((producer, tier) => {
+      if (producer.id === 'codingSession' || !market.isUnlocked(producer.id)) return;
+      const rule = this.getRule(producer.id);
+      if (!rule.enabled || (rule.maxOwned !== null && producer.quantity >= rule.maxOwned)) return;
+      if (!market.canAffordExtraCosts(producer)) return;
+      const cost = market.getCost(producer.id);
+      const budget = market.resources.sub(committed).sub(rule.reserve);
+      candidates.push({ producer, tier, cost, gain: market.getGain(producer), budget, affordable: budget.gte(cost) });
+    });
+    return candidates;
+  }
+
+  /**
+   * Once the interval has elapsed, serve the shared purchase queue of producers and opted-in upgrades.
+   *
+   * Entries are visited oldest first. Each one may only spend what is left after the entries ahead
+   * of it have set aside their cost (the producer strategy sets aside its cheapest candidate), so a
+   * cheap purchase can jump the queue but never delay one that has waited longer. The bought entry
+   * goes to the back of the queue, so producers and upgrades take turns instead of starving each other.
+   * @returns What to purchase, or null if nothing (yet)
+   */
+  tryPurchase(now: number, market: AutoBuyMarket): AutoBuyPurchase | null {
     if (!this.enabled) return null;
     const elapsed = now - this.lastBuy;
     if (elapsed < this.getIntervalMs()) return null;
 
-    const affordable = producers.filter(p => p.id !== 'codingSession' && resources >= getCost(p.id));
-    if (affordable.length === 0) return null;
+    const queue = this.syncQueue(now, market.upgrades);
+    let committed = BigNum.ZERO;
+    for (const key of queue) {
+      if (key === PRODUCER_QUEUE_KEY) {
+        const candidates = this.getCandidates(market, committed);
+        const pick = market.plannedProducerId !== undefined
+          ? candidates.find(c => c.producer.id === market.plannedProducerId && c.affordable) ?? null
+          : selectPurchase(this.strategy, {
+            candidates,
+            producers: market.producers,
+            income: market.income,
+            globalMultiplier: market.globalMultiplier,
+            lastPurchasedId: this.lastPurchasedId,
+          });
+        if (pick) {
+          this.served(key, now);
+          this.lastPurchasedId = pick.producer.id;
+          return { kind: 'producer', id: pick.producer.id };
+        }
+        const cheapest = candidates.reduce<BigNum | null>((min, c) => (min === null || c.cost.lt(min) ? c.cost : min), null);
+        if (cheapest) committed = committed.add(cheapest);
+      } else {
+        const upgrade = market.upgrades.find(u => upgradeQueueKey(u.id) === key);
+        if (!upgrade) continue;
+        if (market.resources.sub(committed).gte(upgrade.cost)) {
+          this.served(key, now);
+          return { kind: 'upgrade', id: upgrade.id };
+        }
+        committed = committed.add(upgrade.cost);
+      }
+    }
+    return null;
+  }
 
-    let best = affordable[0];
-    let bestRatio = getCost(best.id) / best.productionRate;
-    for (const p of affordable) {
-      const ratio = getCost(p.id) / p.productionRate;
-      if (ratio < bestRatio) { best = p; bestRatio = ratio; }
+  /**
+   * Add newly offered upgrades to the back of the queue and drop ones no longer for sale
+   * @returns Queue keys, oldest first
+   */
+  private syncQueue(now: number, upgrades: UpgradeCandidate[]): string[] {
+    const offered = new Set([PRODUCER_QUEUE_KEY, ...upgrades.map(u => upgradeQueueKey(u.id))]);
+    for (const key of this.queuedAt.keys()) {
+      if (!offered.has(key)) this.queuedAt.delete(key);
     }
+    for (const key of offered) {
+      if (!this.queuedAt.has(key)) this.queuedAt.set(key, now);
+    }
+    // Stable sort keeps insertion order for entries queued at the same time
+    return [...this.queuedAt.entries()].sort((a, b) => a[1] - b[1]).map(([key]) => key);
+  }
 
+  /** Move a queue entry to the back after its purchase */
+  private served(key: string, now: number): void {
     this.lastBuy = now;
-    return best.id;
+    this.queuedAt.delete(key);
+    this.queuedAt.set(key, now);
+  }
+
+  /** Start round-robin over from the first producer (new run) */
+  resetRotation(): void {
+    this.lastPurchasedId = null;
+    this.queuedAt.clear();
+  }
+
+  save(): SavedAutoBuySettings {
+    const rules: SavedAutoBuySettings['rules'] = {};
+    for (const [id, rule] of Object.entries(this.rules)) {
+      rules[id] = { enabled: rule.enabled, maxOwned: rule.maxOwned, reserve: rule.reserve.toString() };
+    }
+    return { strategy: this.strategy, rules, lastPurchasedId: this.lastPurchasedId, upgrades: [...this.upgradeOptIns] };
+  }
+
+  /** Restore validated settings */
+  load(data: SavedAutoBuySettings): void {
+    this.strategy = data.strategy;
+    this.rules = {};
+    for (const [id, rule] of Object.entries(data.rules)) {
+      this.rules[id] = { enabled: rule.enabled, maxOwned: rule.maxOwned, reserve: BigNum.from(rule.reserve) };
+    }
+    this.lastPurchasedId = data.lastPurchasedId;
+    this.upgradeOptIns = new Set(data.upgrades);
+    this.queuedAt.clear();
+  }
+
+  /** Back to the default strategy with no per-producer limits and no upgrade opt-ins */
+  resetSettings(): void {
+    this.strategy = DEFAULT_AUTO_BUY_STRATEGY;
+    this.rules = {};
+    this.lastPurchasedId = null;
+    this.upgradeOptIns.clear();
+    this.queuedAt.clear();
   }
 
-  getSpeedUpgradeCost(): number {
+  getSpeedUpgradeCost(): BigNum {
     const baseCost = 10000;
     const multiplier = 1.5;
-    return Math.floor(baseCost * Math.pow(multiplier, this.speedLevel));
+    return BigNum.from(Math.floor(baseCost * Math.pow(multiplier, this.speedLevel)));
   }
 
-  canAffordSpeedUpgrade(resources: number): boolean {
-    return resources >= this.getSpeedUpgradeCost();
+  canAffordSpeedUpgrade(resources: BigNum): boolean {
+    return resources.gte(this.getSpeedUpgradeCost());
   }
 
   incrementSpeed(): void {
@@ -0,0 +1,98 @@
+import type { ProducerTier } from '../GameEngine';
+import type { BigNum } from '../../utils/BigNum';
+import { findBestValue } from '../producers/valuation';
+
+/**
+ * Auto-buy purchase strategies.
+ * Each strategy looks at the eligible producers and returns the one to buy now, or null to wait
+ * (payback and round-robin save up for their pick instead of buying something else).
+ */
+
+export const AUTO_BUY_STRATEGIES = [
+  { id: 'bestRatio', name: 'Best ratio', description: 'Lowest cost per unit of production gained' },
+  { id: 'cheapest', name: 'Cheapest', description: 'Lowest price, to keep buying as often as possible' },
+  { id: 'payback', name: 'Fastest payback', description: 'Shortest time to afford plus time to earn the cost back, as on the Best value badge; saves up for it' },
+  { id: 'roundRobin', name: 'Round robin', description: 'Each enabled producer in turn, waiting for the next one to be affordable' },
+  { id: 'highestTier', name: 'Highest tier', description: 'Most advanced producer that is affordable' },
+] as const;
+
+export type AutoBuyStrategyId = typeof AUTO_BUY_STRATEGIES[number]['id'];
+
+/** Strategy for new games, hard resets and saves from before strategies existed */
+export const DEFAULT_AUTO_BUY_STRATEGY: AutoBuyStrategyId = 'payback';
+
+/** A producer the auto-buyer may purchase */
+export interface PurchaseCandidate {
+  producer: ProducerTier;
+  /** Position in the producer list (higher = more advanced tier) */
+  tier: number;
+  cost: BigNum;
+  /**
+   * Resource production per second gained by one more unit, including synergy boosts (before global modifiers).
+   * Commits, Coffee and Tech Debt count at their resource value while a producer is short of them.
+   */
+  gain: number;
+  /** Resources available for this producer (current resources minus its reserve) */
+  budget: BigNum;
+  /** Whether the cost fits the budget */
+  affordable: boolean;
+}
+
+export interface StrategyContext {
+  /** Eligible candidates in producer order */
+  candidates: PurchaseCandidate[];
+  /** Every producer in tier order, eligible or not (a candidate's `tier` indexes this list) */
+  producers: ProducerTier[];
+  /** Current production per second */
+  income: BigNum;
+  /** Global multiplier that turns a candidate's gain into real income */
+  globalMultiplier: number;
+  /** Producer bought last (round-robin continues after it) */
+  lastPurchasedId: string | null;
+}
+
+/** Candidate with the lowest cost per production gained (the first one wins ties) */
+export function findBestRatio<T extends { cost: BigNum; gain: number }>(candidates: T[]): T | undefined {
+  let best: T | undefined;
+  let bestRatio: BigNum | undefined;
+  for (const c of candidates) {
+    if (c.gain <= 0) continue;
+    const ratio = c.cost.div(c.gain);
+    if (!bestRatio || ratio.lt(bestRatio)) { best = c; bestRatio = ratio; }
+  }
+  return best;
+}
+
+type StrategySelector = (ctx: StrategyContext) => PurchaseCandidate | null;
+
+const SELECTORS: Record<AutoBuyStrategyId, StrategySelector> = {
+  bestRatio: ({ candidates }) => findBestRatio(candidates.filter(c => c.affordable)) ?? null,
+
+  cheapest: ({ candidates }) => candidates
+    .filter(c => c.affordable)
+    .reduce<PurchaseCandidate | null>((best, c) => (!best || c.cost.lt(best.cost) ? c : best), null),
+
+  payback: ({ candidates, income, globalMultiplier }) => {
+    const best = findBestValue(candidates, income, globalMultiplier);
+    return best?.affordable ? best : null;
+  },
+
+  roundRobin: ({ candidates, producers, lastPurchasedId }) => {
+    if (candidates.length === 0) return null;
+    // The last producer may no longer be a candidate (disabled or capped by its rule), so use the full list
+    const lastTier = producers.findIndex(p => p.id === lastPurchasedId);
+    const next = candidates.find(c => c.tier > lastTier) ?? candidates[0];
+    return next.affordable ? next : null;
+  },
+
+  highestTier: ({ candidates }) => candidates.filter(c => c.affordable).at(-1) ?? null,
+};
+
+/** The candidate a strategy buys now, or null to wait */
+export function selectPurchase(strategy: AutoBuyStrategyId, ctx: StrategyContext): PurchaseCandidate | null {
+  return SELECTORS[strategy](ctx);
+}
+
+export function isAutoBuyStrategy(value: unknown): value is AutoBuyStrategyId {
+  return AUTO_BUY_STRATEGIES.some(s => s.id === value);
+}
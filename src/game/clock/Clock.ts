@@ -0,0 +1,39 @@
+/**
+ * Time source abstraction so the engine can run on real or simulated time.
+ */
+export interface Clock {
+  /** Current time in milliseconds since the epoch */
+  now(): number;
+}
+
+/** Real wall-clock time (browser default) */
+export const systemClock: Clock = {
+  now: () => Date.now(),
+};
+
+/**
+ * Manually stepped clock for deterministic runs (Node tests, headless tools)
+ * Time only moves when advance() or set() is called.
+ */
+export class ManualClock implements Clock {
+  private time: number;
+
+  constructor(start = 0) {
+    this.time = start;
+  }
+
+  now(): number {
+    return this.time;
+  }
+
+  /** Move time forward by ms milliseconds */
+  advance(ms: number): void {
+    if (ms < 0) throw new Error('ManualClock cannot move backwards');
+    this.time += ms;
+  }
+
+  /** Jump to an absolute timestamp */
+  set(time: number): void {
+    this.time = time;
+  }
+}
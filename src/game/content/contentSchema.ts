@@ -0,0 +1,367 @@
+import { DEFAULT_COST_MULTIPLIER, REPEATABLE_IDS, UPGRADE_IDS } from '../../constants/gameConstants';
+import { SECONDARY_CURRENCIES, isCurrencyId } from '../currencies/Wallet';
+import type { CurrencyId, SecondaryCurrencyId } from '../currencies/Wallet';
+
+/**
+ * Content schema: typed definitions for producers, upgrades, repeatable upgrades,
+ * typing challenges and research, plus runtime validation of raw JSON content files.
+ *
+ * A content pack may be split over several files; `parseContent` concatenates
+ * their sections before validating the whole pack.
+ */
+
+type RawContent = Record<string, unknown>;
+
+/**
+ * Producer tier. Built-in resource tiers follow a 5x ladder: each unlocks at 5x the previous
+ * tier's threshold and costs 5x its base cost, with rates scaled to keep pace. Producers of the
+ * secondary currencies sit between them in unlock order.
+ */
+export interface ProducerDef {
+  id: string;
+  name: string;
+  description: string;
+  /** Cost of the first unit */
+  baseCost: number;
+  /** Cost growth per unit owned (defaults to DEFAULT_COST_MULTIPLIER) */
+  costMultiplier: number;
+  /** Units of `produces` per second per unit */
+  productionRate: number;
+  /** Currency the producer makes (defaults to resources) */
+  produces: CurrencyId;
+  /** Secondary currency costs of the first unit, paid alongside baseCost and growing by the same costMultiplier */
+  extraCosts: Partial<Record<SecondaryCurrencyId, number>>;
+  /** Resources required to reveal the producer */
+  unlockThreshold?: number;
+}
+
+/** One-time upgrade; the ids in UPGRADE_IDS unlock engine features */
+export interface UpgradeDef {
+  id: string;
+  name: string;
+  description: string;
+  cost: number;
+}
+
+/** Levelled upgrade; the ids in REPEATABLE_IDS are wired to engine effects */
+export interface RepeatableDef {
+  id: string;
+  name: string;
+  description: string;
+  baseCost: number;
+  costMultiplier: number;
+  maxLevel?: number;
+}
+
+export type ProducerUpgradeEffect =
+  | { type: 'multiplier'; factor: number }
+  /** Each owned unit of sourceId adds bonusPerUnit (0.01 = +1%) to this upgrade's producer */
+  | { type: 'synergy'; sourceId: string; bonusPerUnit: number };
+
+/** One-time upgrade tied to a single producer tier */
+export interface ProducerUpgradeDef {
+  id: string;
+  name: string;
+  description: string;
+  /** Producer this upgrade belongs to (and whose count unlocks it) */
+  producerId: string;
+  /** Units of producerId that must be owned before the upgrade can be bought */
+  requiredOwned: number;
+  cost: number;
+  effect: ProducerUpgradeEffect;
+}
+
+/** Short snippet the player must type within the time limit */
+export interface MiniChallengeDef {
+  id: string;
+  /** Characters the player must type exactly */
+  snippet: string;
+  timeLimitSeconds: number;
+  description: string;
+}
+
+/** What a finished research node changes; factors multiply through the modifier pipeline */
+export type ResearchEffect =
+  | { type: 'producer'; producerId: string; factor: number }
+  | { type: 'click'; factor: number };
+
+/** Node of the research tree */
+export interface ResearchDef {
+  id: string;
+  name: string;
+  description: string;
+  /** Resources paid when research starts */
+  cost: number;
+  /** Secondary currency costs paid alongside cost */
+  extraCosts: Partial<Record<SecondaryCurrencyId, number>>;
+  /** Seconds from starting the research to its effects applying */
+  researchSeconds: number;
+  /** Research that must be finished first (always defined earlier in the list, so the tree has no cycles) */
+  requires: string[];
+  /** Only one node of an exclusive group can be researched per run, e.g. Monolith vs Microservices */
+  exclusiveGroup?: string;
+  effects: ResearchEffect[];
+}
+
+export interface ContentPack {
+  producers: ProducerDef[];
+  upgrades: UpgradeDef[];
+  repeatables: RepeatableDef[];
+  producerUpgrades: ProducerUpgradeDef[];
+  challenges: MiniChallengeDef[];
+  research: ResearchDef[];
+}
+
+const SECTIONS = ['producers', 'upgrades', 'repeatables', 'producerUpgrades', 'challenges', 'research'] as const;
+
+/** Thrown when content files are malformed; `issues` lists every problem found */
+export class ContentValidationError extends Error {
+  public readonly issues: string[];
+
+  constructor(issues: string[]) {
+    super(`Invalid game content: ${issues.join('; ')}`);
+    this.name = 'ContentValidationError';
+    this.issues = issues;
+  }
+}
+
+function isRecord(value: unknown): value is RawContent {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Field readers for one entry; each records an issue and returns undefined on failure.
+ * `path` prefixes messages, e.g. "producers[2].baseCost".
+ */
+function entryReader(entry: RawContent, path: string, issues: string[]) {
+  const fail = (key: string, expected: string) => {
+    issues.push(`${path}.${key} must be ${expected} (got ${JSON.stringify(entry[key])})`);
+    return undefined;
+  };
+  return {
+    str: (key: string): string | undefined => {
+      const value = entry[key];
+      return typeof value === 'string' && value.trim() !== '' ? value : fail(key, 'a non-empty string');
+    },
+    num: (key: string, opts: { positive?: boolean; integer?: boolean; min?: number; optional?: boolean } = {}): number | undefined => {
+      const value = entry[key];
+      if (value === undefined && opts.optional) return undefined;
+      if (typeof value !== 'number' || !Number.isFinite(value)) return fail(key, 'a finite number');
+      if (opts.positive && value <= 0) return fail(key, 'greater than 0');
+      if (opts.min !== undefined && value < opts.min) return fail(key, `at least ${opts.min}`);
+      if (opts.integer && !Number.isInteger(value)) return fail(key, 'an integer');
+      return value;
+    },
+    unknownKeys: (known: string[]) => {
+      for (const key of Object.keys(entry)) {
+        if (!known.includes(key)) issues.push(`${path} has unknown field ${key}`);
+      }
+    },
+  };
+}
+
+/** Optional `extraCosts` field: positive amounts keyed by secondary currency id */
+function readExtraCosts(entry: RawContent, path: string, issues: string[]): Partial<Record<SecondaryCurrencyId, number>> {
+  const extraCosts: Partial<Record<SecondaryCurrencyId, number>> = {};
+  if (entry.extraCosts === undefined) return extraCosts;
+  if (!isRecord(entry.extraCosts)) {
+    issues.push(`${path}.extraCosts must be an object`);
+    return extraCosts;
+  }
+  const er = entryReader(entry.extraCosts, `${path}.extraCosts`, issues);
+  er.unknownKeys([...SECONDARY_CURRENCIES]);
+  for (const currency of SECONDARY_CURRENCIES) {
+    const amount = er.num(currency, { positive: true, optional: true });
+    if (amount !== undefined) extraCosts[currency] = amount;
+  }
+  return extraCosts;
+}
+
+/**
+ * Validate each entry of a section, dropping invalid ones and duplicate ids
+ */
+function readSection<T extends { id: string }>(
+  section: string,
+  raw: unknown[],
+  issues: string[],
+  read: (r: ReturnType<typeof entryReader>, path: string, entry: RawContent) => T | undefined,
+): T[] {
+  const result: T[] = [];
+  raw.forEach((entry, i) => {
+    const path = `${section}[${i}]`;
+    if (!isRecord(entry)) { issues.push(`${path} must be an object`); return; }
+    const before = issues.length;
+    const def = read(entryReader(entry, path, issues), path, entry);
+    if (!def || issues.length > before) return;
+    if (result.some(d => d.id === def.id)) { issues.push(`${path}.id ${JSON.stringify(def.id)} is a duplicate`); return; }
+    result.push(def);
+  });
+  return result;
+}
+
+/**
+ * Validate a merged content pack against the schema and its cross references
+ * @throws ContentValidationError listing every issue found
+ */
+export function validateContent(data: Record<(typeof SECTIONS)[number], unknown[]>): ContentPack {
+  const issues: string[] = [];
+
+  const producers = readSection<ProducerDef>('producers', data.producers, issues, (r, path, e) => {
+    r.unknownKeys(['id', 'name', 'description', 'baseCost', 'costMultiplier', 'productionRate', 'produces', 'extraCosts', 'unlockThreshold']);
+    const id = r.str('id');
+    if (id === 'codingSession') issues.push('producers id "codingSession" is reserved for manual coding');
+    const produces = e.produces ?? 'resources';
+    if (!isCurrencyId(produces)) issues.push(`${path}.produces must be a currency id (got ${JSON.stringify(e.produces)})`);
+    const extraCosts = readExtraCosts(e, path, issues);
+    const def = {
+      id, name: r.str('name'), description: r.str('description'),
+      baseCost: r.num('baseCost', { positive: true }),
+      costMultiplier: r.num('costMultiplier', { min: 1, optional: true }) ?? DEFAULT_COST_MULTIPLIER,
+      productionRate: r.num('productionRate', { positive: true }),
+      produces, extraCosts,
+      unlockThreshold: r.num('unlockThreshold', { min: 0, optional: true }),
+    };
+    return def as ProducerDef;
+  });
+
+  const upgrades = readSection<UpgradeDef>('upgrades', data.upgrades, issues, (r) => {
+    r.unknownKeys(['id', 'name', 'description', 'cost']);
+    return { id: r.str('id'), name: r.str('name'), description: r.str('description'), cost: r.num('cost', { min: 0 }) } as UpgradeDef;
+  });
+
+  const repeatables = readSection<RepeatableDef>('repeatables', data.repeatables, issues, (r) => {
+    r.unknownKeys(['id', 'name', 'description', 'baseCost', 'costMultiplier', 'maxLevel']);
+    return {
+      id: r.str('id'), name: r.str('name'), description: r.str('description'),
+      baseCost: r.num('baseCost', { positive: true }),
+      costMultiplier: r.num('costMultiplier', { min: 1 }),
+      maxLevel: r.num('maxLevel', { integer: true, min: 1, optional: true }),
+    } as RepeatableDef;
+  });
+
+  const producerIds = producers.map(p => p.id);
+  const producerUpgrades = readSection<ProducerUpgradeDef>('producerUpgrades', data.producerUpgrades, issues, (r, path, e) => {
+    r.unknownKeys(['id', 'name', 'description', 'producerId', 'requiredOwned', 'cost', 'effect']);
+    const producerId = r.str('producerId');
+    if (producerId && !producerIds.includes(producerId)) issues.push(`${path}.producerId refers to unknown producer "${producerId}"`);
+    const effect = e.effect;
+    let parsedEffect: ProducerUpgradeEffect | undefined;
+    if (!isRecord(effect)) {
+      issues.push(`${path}.effect must be an object`);
+    } else {
+      const er = entryReader(effect, `${path}.effect`, issues);
+      if (effect.type === 'multiplier') {
+        er.unknownKeys(['type', 'factor']);
+        parsedEffect = { type: 'multiplier', factor: er.num('factor', { positive: true }) as number };
+      } else if (effect.type === 'synergy') {
+        er.unknownKeys(['type', 'sourceId', 'bonusPerUnit']);
+        const sourceId = er.str('sourceId');
+        if (sourceId && !producerIds.includes(sourceId)) issues.push(`${path}.effect.sourceId refers to unknown producer "${sourceId}"`);
+        if (sourceId && sourceId === producerId) issues.push(`${path}.effect.sourceId must differ from producerId`);
+        parsedEffect = { type: 'synergy', sourceId: sourceId as string, bonusPerUnit: er.num('bonusPerUnit', { positive: true }) as number };
+      } else {
+        issues.push(`${path}.effect.type must be "multiplier" or "synergy" (got ${JSON.stringify(effect.type)})`);
+      }
+    }
+    return {
+      id: r.str('id'), name: r.str('name'), description: r.str('description'), producerId,
+      requiredOwned: r.num('requiredOwned', { integer: true, min: 0 }),
+      cost: r.num('cost', { min: 0 }),
+      effect: parsedEffect,
+    } as ProducerUpgradeDef;
+  });
+
+  const challenges = readSection<MiniChallengeDef>('challenges', data.challenges, issues, (r, path) => {
+    r.unknownKeys(['id', 'snippet', 'timeLimitSeconds', 'description']);
+    const snippet = r.str('snippet');
+    if (snippet?.includes('\n')) issues.push(`${path}.snippet must be a single line`);
+    return { id: r.str('id'), snippet, timeLimitSeconds: r.num('timeLimitSeconds', { positive: true }), description: r.str('description') } as MiniChallengeDef;
+  });
+
+  const earlierResearchIds: string[] = [];
+  const research = readSection<ResearchDef>('research', data.research, issues, (r, path, e) => {
+    r.unknownKeys(['id', 'name', 'description', 'cost', 'extraCosts', 'researchSeconds', 'requires', 'exclusiveGroup', 'effects']);
+    const id = r.str('id');
+    const requires: string[] = [];
+    if (e.requires !== undefined && !Array.isArray(e.requires)) {
+      issues.push(`${path}.requires must be an array`);
+    } else {
+      for (const required of (e.requires ?? []) as unknown[]) {
+        // Prerequisites must come earlier in the list, which also rules out cycles
+        if (typeof required !== 'string' || !earlierResearchIds.includes(required)) {
+          issues.push(`${path}.requires refers to unknown or later research ${JSON.stringify(required)}`);
+        } else {
+          requires.push(required);
+        }
+      }
+    }
+    const effects: ResearchEffect[] = [];
+    if (!Array.isArray(e.effects) || e.effects.length === 0) {
+      issues.push(`${path}.effects must be a non-empty array`);
+    } else {
+      e.effects.forEach((effect: unknown, i) => {
+        const effectPath = `${path}.effects[${i}]`;
+        if (!isRecord(effect)) { issues.push(`${effectPath} must be an object`); return; }
+        const er = entryReader(effect, effectPath, issues);
+        const factor = er.num('factor', { positive: true });
+        if (effect.type === 'producer') {
+          er.unknownKeys(['type', 'producerId', 'factor']);
+          const producerId = er.str('producerId');
+          if (producerId && !producerIds.includes(producerId)) issues.push(`${effectPath}.producerId refers to unknown producer "${producerId}"`);
+          if (producerId && factor !== undefined) effects.push({ type: 'producer', producerId, factor });
+        } else if (effect.type === 'click') {
+          er.unknownKeys(['type', 'factor']);
+          if (factor !== undefined) effects.push({ type: 'click', factor });
+        } else {
+          issues.push(`${effectPath}.type must be "producer" or "click" (got ${JSON.stringify(effect.type)})`);
+        }
+      });
+    }
+    const exclusiveGroup = e.exclusiveGroup === undefined ? undefined : r.str('exclusiveGroup');
+    if (id) earlierResearchIds.push(id);
+    return {
+      id, name: r.str('name'), description: r.str('description'),
+      cost: r.num('cost', { min: 0 }),
+      extraCosts: readExtraCosts(e, path, issues),
+      researchSeconds: r.num('researchSeconds', { positive: true }),
+      requires,
+      ...(exclusiveGroup !== undefined && { exclusiveGroup }),
+      effects,
+    } as ResearchDef;
+  });
+
+  // Upgrades and producer upgrades share the purchased-upgrades save field, so ids must not collide
+  for (const u of producerUpgrades) {
+    if (upgrades.some(x => x.id === u.id)) issues.push(`producerUpgrades id "${u.id}" collides with an upgrade id`);
+  }
+  for (const id of Object.values(UPGRADE_IDS)) {
+    if (!upgrades.some(u => u.id === id)) issues.push(`upgrades must define "${id}" (used by the engine)`);
+  }
+  for (const id of Object.values(REPEATABLE_IDS)) {
+    if (!repeatables.some(u => u.id === id)) issues.push(`repeatables must define "${id}" (used by the engine)`);
+  }
+  if (producers.length === 0) issues.push('producers must contain at least one producer');
+  if (challenges.length === 0) issues.push('challenges must contain at least one challenge');
+
+  if (issues.length > 0) throw new ContentValidationError(issues);
+  return { producers, upgrades, repeatables, producerUpgrades, challenges, research };
+}
+
+/**
+ * Merge one or more raw content files (each holding some of the sections) and validate the result
+ * @throws ContentValidationError if a file is malformed or the merged pack is invalid
+ */
+export function parseContent(...sources: unknown[]): ContentPack {
+  const issues: string[] = [];
+  const merged = { producers: [], upgrades: [], repeatables: [], producerUpgrades: [], challenges: [], research: [] } as Record<(typeof SECTIONS)[number], unknown[]>;
+  sources.forEach((source, i) => {
+    if (!isRecord(source)) { issues.push(`content file ${i} must be an object`); return; }
+    for (const [key, value] of Object.entries(source)) {
+      if (!(SECTIONS as readonly string[]).includes(key)) { issues.push(`content file ${i} has unknown section ${key}`); continue; }
+      if (!Array.isArray(value)) { issues.push(`content file ${i} section ${key} must be an array`); continue; }
+      merged[key as (typeof SECTIONS)[number]].push(...value);
+    }
+  });
+  if (issues.length > 0) throw new ContentValidationError(issues);
+  return validateContent(merged);
+}
@@ -0,0 +1,11 @@
+import producers from '../../content/producers.json';
+import upgrades from '../../content/upgrades.json';
+import challenges from '../../content/challenges.json';
+import research from '../../content/research.json';
+import { parseContent } from './contentSchema';
+
+/**
+ * Built-in content pack, validated when the module loads.
+ * Rebalance or add content by editing the JSON files in src/content.
+ */
+export const DEFAULT_CONTENT = parseContent(producers, upgrades, challenges, research);
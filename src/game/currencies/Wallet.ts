@@ -0,0 +1,69 @@
+import { CURRENCIES } from '../../constants/gameConstants';
+import type { SavedCurrencies } from '../../types/game.types';
+import { BigNum } from '../../utils/BigNum';
+import type { BigNumSource } from '../../utils/BigNum';
+
+export type CurrencyId = keyof typeof CURRENCIES;
+
+/** Currencies other than resources (resources stay on the engine, where most of the game reads them) */
+export type SecondaryCurrencyId = Exclude<CurrencyId, 'resources'>;
+
+export const SECONDARY_CURRENCIES = (Object.keys(CURRENCIES) as CurrencyId[])
+  .filter((id): id is SecondaryCurrencyId => id !== 'resources');
+
+export function isCurrencyId(value: unknown): value is CurrencyId {
+  return typeof value === 'string' && Object.hasOwn(CURRENCIES, value);
+}
+
+/** Amounts of secondary currencies, e.g. the part of a cost paid in Coffee and Commits */
+export type CurrencyAmounts = Partial<Record<SecondaryCurrencyId, BigNum>>;
+
+/**
+ * Balances of the secondary currencies (Commits, Coffee, Tech Debt) for the current run.
+ * A mixed cost is only paid when every part of it is affordable.
+ */
+export class Wallet {
+  private balances = Wallet.empty();
+
+  private static empty(): Record<SecondaryCurrencyId, BigNum> {
+    return Object.fromEntries(SECONDARY_CURRENCIES.map(id => [id, BigNum.ZERO])) as Record<SecondaryCurrencyId, BigNum>;
+  }
+
+  get(id: SecondaryCurrencyId): BigNum {
+    return this.balances[id];
+  }
+
+  add(id: SecondaryCurrencyId, amount: BigNumSource): void {
+    this.balances[id] = this.balances[id].add(amount);
+  }
+
+  canAfford(costs: CurrencyAmounts): boolean {
+    return SECONDARY_CURRENCIES.every(id => !costs[id] || this.balances[id].gte(costs[id]));
+  }
+
+  /**
+   * Pay every part of a cost
+   * @returns false (and nothing is spent) if any part is unaffordable
+   */
+  spend(costs: CurrencyAmounts): boolean {
+    if (!this.canAfford(costs)) return false;
+    for (const id of SECONDARY_CURRENCIES) {
+      const cost = costs[id];
+      if (cost) this.balances[id] = this.balances[id].sub(cost);
+    }
+    return true;
+  }
+
+  reset(): void {
+    this.balances = Wallet.empty();
+  }
+
+  save(): SavedCurrencies {
+    return Object.fromEntries(SECONDARY_CURRENCIES.map(id => [id, this.balances[id].toString()])) as SavedCurrencies;
+  }
+
+  /** Restore validated balances */
+  load(data: SavedCurrencies): void {
+    this.balances = Object.fromEntries(SECONDARY_CURRENCIES.map(id => [id, BigNum.from(data[id])])) as Record<SecondaryCurrencyId, BigNum>;
+  }
+}
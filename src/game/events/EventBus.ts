@@ -0,0 +1,59 @@
+/**
+ * Minimal typed event emitter.
+ * `Events` maps each event name to its payload type, so listeners and emits are checked at compile time.
+ */
+
+export type EventListener<T> = (payload: T) => void;
+
+export class EventBus<Events extends object> {
+  private listeners = new Map<keyof Events, Set<EventListener<never>>>();
+
+  /**
+   * Subscribe to an event
+   * @returns Function that removes the listener
+   */
+  on<K extends keyof Events>(type: K, listener: EventListener<Events[K]>): () => void {
+    let set = this.listeners.get(type);
+    if (!set) {
+      set = new Set();
+      this.listeners.set(type, set);
+    }
+    set.add(listener as EventListener<never>);
+    return () => this.off(type, listener);
+  }
+
+  /** Subscribe to the next occurrence of an event only */
+  once<K extends keyof Events>(type: K, listener: EventListener<Events[K]>): () => void {
+    const off = this.on(type, payload => {
+      off();
+      listener(payload);
+    });
+    return off;
+  }
+
+  off<K extends keyof Events>(type: K, listener: EventListener<Events[K]>): void {
+    this.listeners.get(type)?.delete(listener as EventListener<never>);
+  }
+
+  /**
+   * Call every listener of an event synchronously, in subscription order
+   * A throwing listener is logged and skipped so it cannot break the emitter's caller.
+   */
+  emit<K extends keyof Events>(type: K, payload: Events[K]): void {
+    const set = this.listeners.get(type);
+    if (!set) return;
+    // Copy so listeners may unsubscribe while being called
+    for (const listener of [...set] as EventListener<Events[K]>[]) {
+      try {
+        listener(payload);
+      } catch (error) {
+        console.error(`Error in "${String(type)}" listener:`, error);
+      }
+    }
+  }
+
+  /** Remove every listener */
+  clear(): void {
+    this.listeners.clear();
+  }
+}
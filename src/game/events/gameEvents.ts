@@ -0,0 +1,41 @@
+import type { BigNum } from '../../utils/BigNum';
+import type { IncidentKind } from '../../constants/incidents';
+import type { PlannerGoal } from '../planner/GoalPlanner';
+
+/**
+ * Events emitted by GameEngine, keyed by name.
+ * Subscribe with `engine.on(name, listener)`; events fire synchronously while the engine updates.
+ */
+export interface GameEvents {
+  /** The player bought one or more units of a producer */
+  producerPurchased: { producerId: string; count: number; cost: BigNum; quantity: number };
+  /** A producer became visible because its unlock threshold was reached */
+  producerUnlocked: { producerId: string };
+  /** Auto-buy bought a unit of a producer (offline = during offline progress) */
+  autoBuyPurchased: { producerId: string; cost: BigNum; quantity: number; offline: boolean };
+  /**
+   * A one-time upgrade, producer upgrade or repeatable upgrade level was bought
+   * `level` is the new level for repeatable upgrades.
+   */
+  upgradePurchased: { upgradeId: string; kind: 'upgrade' | 'producerUpgrade' | 'repeatable'; cost: BigNum; level?: number };
+  achievementUnlocked: { achievementId: string };
+  /** A typed word was completed and rewarded */
+  wordCompleted: { length: number; reward: number; streakWords: number };
+  challengeStarted: { challengeId: string; snippet: string; timeLimitMs: number };
+  challengeCompleted: { challengeId: string; reward: number; elapsedMs: number };
+  challengeFailed: { challengeId: string; reason: 'timeout' | 'mistake' };
+  /** A random incident began (producerId is set for outages) */
+  incidentStarted: { incidentId: string; kind: IncidentKind; endsAt: number; producerId?: string };
+  /** An incident ended: timed out, clicked (Merged PR) or fixed by typing (Prod Outage) */
+  incidentEnded: { incidentId: string; kind: IncidentKind; reason: 'expired' | 'claimed' | 'fixed' };
+  /** Research was paid for and started; it finishes at endsAt */
+  researchStarted: { researchId: string; endsAt: number };
+  /** Research finished and its effects now apply */
+  researchCompleted: { researchId: string };
+  /** The goal set with setGoal() was reached (it is cleared at the same time) */
+  goalReached: { goal: PlannerGoal };
+  /** The run was reset, either by a hard reset or by Ship to Production */
+  gameReset: { reason: 'reset' | 'release'; releasePointsGranted: number };
+}
+
+export type GameEventType = keyof GameEvents;
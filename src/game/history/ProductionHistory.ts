@@ -0,0 +1,98 @@
+import { HISTORY_CONFIG } from '../../constants/gameConstants';
+import type { SavedHistory } from '../../types/game.types';
+import { BigNum } from '../../utils/BigNum';
+import { RingBuffer } from './RingBuffer';
+
+/** Resolution of a history tier ('seconds', 'minutes' or 'hours') */
+export type HistoryTierId = typeof HISTORY_CONFIG.tiers[number]['id'];
+
+export interface HistorySample {
+  /** Timestamp in milliseconds (engine clock) */
+  t: number;
+  resources: BigNum;
+  productionRate: BigNum;
+}
+
+export type HistoryMarkerKind = 'unlock' | 'upgrade' | 'release';
+
+/** Notable event drawn on the chart; `id` is the producer or upgrade id */
+export interface HistoryMarker {
+  t: number;
+  kind: HistoryMarkerKind;
+  id: string;
+}
+
+/** Round a value to HISTORY_CONFIG.savedPrecision significant digits and serialize it */
+function compact(value: BigNum): string {
+  return BigNum.from(value.toExponential(HISTORY_CONFIG.savedPrecision - 1)).toString();
+}
+
+/**
+ * Bounded, downsampled history of resources and production rate.
+ * Every tier samples at its own interval into a ring buffer, so memory and save size stay fixed
+ * no matter how long the game runs. History survives Ship to Production and is cleared by a hard reset.
+ */
+export class ProductionHistory {
+  private readonly tiers = HISTORY_CONFIG.tiers.map(config => ({
+    config,
+    samples: new RingBuffer<HistorySample>(config.capacity),
+  }));
+  private readonly markers = new RingBuffer<HistoryMarker>(HISTORY_CONFIG.maxMarkers);
+
+  /** Sample every tier whose interval has elapsed since its last sample */
+  record(now: number, resources: BigNum, productionRate: BigNum): void {
+    for (const tier of this.tiers) {
+      const last = tier.samples.last();
+      // A clock that moved backwards (e.g. a save from another device) restarts sampling
+      if (!last || now < last.t || now - last.t >= tier.config.intervalSeconds * 1000) {
+        tier.samples.push({ t: now, resources, productionRate });
+      }
+    }
+  }
+
+  addMarker(t: number, kind: HistoryMarkerKind, id: string): void {
+    this.markers.push({ t, kind, id });
+  }
+
+  getSamples(tierId: HistoryTierId): HistorySample[] {
+    return this.tiers.find(tier => tier.config.id === tierId)?.samples.toArray() ?? [];
+  }
+
+  /** Markers at or after `since` */
+  getMarkers(since = -Infinity): HistoryMarker[] {
+    return this.markers.toArray().filter(m => m.t >= since);
+  }
+
+  /** Persisted tiers as [seconds after start, resources, rate] tuples with reduced precision */
+  save(): SavedHistory {
+    const tiers: SavedHistory['tiers'] = {};
+    for (const tier of this.tiers) {
+      if (!tier.config.persist || tier.samples.size === 0) continue;
+      const samples = tier.samples.toArray();
+      const start = samples[0].t;
+      tiers[tier.config.id] = {
+        start,
+        samples: samples.map(s => [Math.round((s.t - start) / 1000), compact(s.resources), compact(s.productionRate)]),
+      };
+    }
+    return { tiers, markers: this.markers.toArray().map(m => [m.t, m.kind, m.id]) };
+  }
+
+  /** Restore from validated save data (tiers missing from the save start empty) */
+  load(data: SavedHistory): void {
+    this.reset();
+    for (const tier of this.tiers) {
+      const saved = data.tiers[tier.config.id];
+      if (!saved) continue;
+      for (const [offset, resources, productionRate] of saved.samples) {
+        tier.samples.push({ t: saved.start + offset * 1000, resources: BigNum.from(resources), productionRate: BigNum.from(productionRate) });
+      }
+    }
+    for (const [t, kind, id] of data.markers) this.markers.push({ t, kind, id });
+  }
+
+  reset(): void {
+    for (const tier of this.tiers) tier.samples.clear();
+    this.markers.clear();
+  }
+}
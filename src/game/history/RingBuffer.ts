@@ -0,0 +1,43 @@
+/**
+ * Fixed-capacity FIFO buffer; pushing onto a full buffer overwrites the oldest item.
+ */
+export class RingBuffer<T> {
+  private items: (T | undefined)[];
+  private start = 0;
+  private count = 0;
+  readonly capacity: number;
+
+  constructor(capacity: number) {
+    if (!Number.isInteger(capacity) || capacity <= 0) throw new RangeError(`RingBuffer capacity must be a positive integer (got ${capacity})`);
+    this.capacity = capacity;
+    this.items = new Array<T | undefined>(capacity);
+  }
+
+  get size(): number {
+    return this.count;
+  }
+
+  push(item: T): void {
+    this.items[(this.start + this.count) % this.capacity] = item;
+    if (this.count < this.capacity) this.count++;
+    else this.start = (this.start + 1) % this.capacity;
+  }
+
+  /** Most recently pushed item */
+  last(): T | undefined {
+    return this.count === 0 ? undefined : this.items[(this.start + this.count - 1) % this.capacity];
+  }
+
+  /** Items oldest first */
+  toArray(): T[] {
+    const result: T[] = [];
+    for (let i = 0; i < this.count; i++) result.push(this.items[(this.start + i) % this.capacity] as T);
+    return result;
+  }
+
+  clear(): void {
+    this.items = new Array<T | undefined>(this.capacity);
+    this.start = 0;
+    this.count = 0;
+  }
+}
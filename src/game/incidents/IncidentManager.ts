@@ -0,0 +1,192 @@
+import { INCIDENT_CONFIG, INCIDENTS } from '../../constants/incidents';
+import type { IncidentDef } from '../../constants/incidents';
+import type { SavedIncidents } from '../../types/game.types';
+import type { BigNum } from '../../utils/BigNum';
+import type { SeededRandom } from '../../utils/SeededRandom';
+import type { EventBus } from '../events/EventBus';
+import type { ModifierInput } from '../modifiers/ModifierStack';
+import type { GameEvents } from '../events/gameEvents';
+
+/** An incident currently in effect */
+export interface ActiveIncident {
+  /** Incident definition id */
+  id: string;
+  startedAt: number;
+  endsAt: number;
+  /** Producer slowed down by a prodOutage */
+  producerId?: string;
+  /** Command that resolves a prodOutage, and how much of it has been typed */
+  fixCommand?: string;
+  fixProgress?: number;
+}
+
+/** Engine state that decides which incidents can happen */
+export interface IncidentContext {
+  typingUnlocked: boolean;
+  /** Producers with at least one unit owned */
+  ownedProducerIds: string[];
+  productionRate: BigNum;
+}
+
+/**
+ * Schedules random incidents and tracks their timed effects.
+ * All randomness comes from the injected SeededRandom, whose state is saved with the incidents.
+ */
+export class IncidentManager {
+  private active: ActiveIncident[] = [];
+  private nextAt: number | null;
+  private readonly rng: SeededRandom;
+  private readonly events: EventBus<GameEvents>;
+  private readonly frequency: number;
+  private readonly defs: IncidentDef[];
+
+  /**
+   * @param frequency - Scales how often incidents happen (2 = twice as often, 0 = never)
+   */
+  constructor(rng: SeededRandom, events: EventBus<GameEvents>, now: number, frequency = 1, defs: IncidentDef[] = INCIDENTS) {
+    this.rng = rng;
+    this.events = events;
+    this.frequency = frequency;
+    this.defs = defs;
+    this.nextAt = this.scheduleAfter(now);
+  }
+
+  private scheduleAfter(now: number): number | null {
+    if (this.frequency <= 0) return null;
+    const { minIntervalSeconds, maxIntervalSeconds } = INCIDENT_CONFIG;
+    return now + this.rng.between(minIntervalSeconds, maxIntervalSeconds) * 1000 / this.frequency;
+  }
+
+  private getDef(id: string): IncidentDef | undefined {
+    return this.defs.find(d => d.id === id);
+  }
+
+  private isEligible(def: IncidentDef, ctx: IncidentContext): boolean {
+    if (this.active.some(a => a.id === def.id)) return false;
+    switch (def.kind) {
+      case 'mergedPr':
+        return true;
+      case 'prodOutage':
+        return ctx.typingUnlocked && ctx.ownedProducerIds.length > 0;
+      case 'hackathon':
+        return ctx.productionRate.gt(0);
+    }
+  }
+
+  /**
+   * End incidents whose time is up and start a new one when due
+   * @returns True if the set of active incidents changed
+   */
+  update(now: number, ctx: IncidentContext): boolean {
+    let changed = false;
+    for (const incident of [...this.active]) {
+      if (now >= incident.endsAt) {
+        this.end(incident, 'expired');
+        changed = true;
+      }
+    }
+    if (this.nextAt !== null && now >= this.nextAt) {
+      this.nextAt = this.scheduleAfter(now);
+      const eligible = this.defs.filter(def => this.isEligible(def, ctx));
+      if (eligible.length > 0) {
+        this.start(this.rng.pickWeighted(eligible, def => def.weight), now, ctx);
+        changed = true;
+      }
+    }
+    return changed;
+  }
+
+  private start(def: IncidentDef, now: number, ctx: IncidentContext): void {
+    const incident: ActiveIncident = { id: def.id, startedAt: now, endsAt: now + def.durationSeconds * 1000 };
+    if (def.kind === 'prodOutage') {
+      incident.producerId = this.rng.pick(ctx.ownedProducerIds);
+      incident.fixCommand = this.rng.pick(def.fixCommands);
+      incident.fixProgress = 0;
+    }
+    this.active.push(incident);
+    this.events.emit('incidentStarted', { incidentId: def.id, kind: def.kind, endsAt: incident.endsAt, producerId: incident.producerId });
+  }
+
+  private end(incident: ActiveIncident, reason: GameEvents['incidentEnded']['reason']): void {
+    this.active = this.active.filter(a => a !== incident);
+    const def = this.getDef(incident.id);
+    if (def) this.events.emit('incidentEnded', { incidentId: def.id, kind: def.kind, reason });
+  }
+
+  /**
+   * Collect an active clickable incident
+   * @returns Its definition (for the engine to pay the reward), or null if it is not active
+   */
+  claim(incidentId: string): IncidentDef | null {
+    const incident = this.active.find(a => a.id === incidentId);
+    const def = this.getDef(incidentId);
+    if (!incident || def?.kind !== 'mergedPr') return null;
+    this.end(incident, 'claimed');
+    return def;
+  }
+
+  /**
+   * Advance the fix command of every active outage by one typed character
+   * A wrong character restarts the command (or counts as its first character).
+   * @returns True if an outage was fixed
+   */
+  handleChar(char: string): boolean {
+    let fixed = false;
+    for (const incident of [...this.active]) {
+      const command = incident.fixCommand;
+      if (!command) continue;
+      const progress = incident.fixProgress ?? 0;
+      incident.fixProgress = char === command[progress] ? progress + 1 : char === command[0] ? 1 : 0;
+      if (incident.fixProgress >= command.length) {
+        this.end(incident, 'fixed');
+        fixed = true;
+      }
+    }
+    return fixed;
+  }
+
+  /**
+   * Modifiers for the active incidents' effects, expiring when the incidents do
+   * Ids are prefixed with "incident:" so the engine can replace them as a group.
+   */
+  getModifiers(producerName: (producerId: string) => string): ModifierInput[] {
+    const modifiers: ModifierInput[] = [];
+    for (const incident of this.active) {
+      const def = this.getDef(incident.id);
+      if (def?.kind === 'hackathon') {
+        modifiers.push({ id: `incident:${def.id}`, source: def.name, target: 'global', type: 'mult', value: def.factor, expiresAt: incident.endsAt });
+      } else if (def?.kind === 'prodOutage' && incident.producerId) {
+        modifiers.push({
+          id: `incident:${def.id}`, source: `${def.name} (${producerName(incident.producerId)})`, target: 'producer',
+          producerId: incident.producerId, type: 'mult', value: def.factor, expiresAt: incident.endsAt,
+        });
+      }
+    }
+    return modifiers;
+  }
+
+  /** Active incidents with their definitions, for the UI */
+  getActive(): Array<{ incident: ActiveIncident; def: IncidentDef }> {
+    return this.active.flatMap(incident => {
+      const def = this.getDef(incident.id);
+      return def ? [{ incident: { ...incident }, def }] : [];
+    });
+  }
+
+  save(): SavedIncidents {
+    return { rngState: this.rng.getState(), nextAt: this.nextAt, active: this.active.map(a => ({ ...a })) };
+  }
+
+  /** Restore from validated save data; a missing schedule is re-rolled from `now` */
+  load(data: SavedIncidents, now: number): void {
+    this.rng.setState(data.rngState);
+    this.active = data.active.map(a => ({ ...a }));
+    this.nextAt = this.frequency <= 0 ? null : data.nextAt ?? this.scheduleAfter(now);
+  }
+
+  /** Clear active incidents and restart the schedule (the random sequence continues) */
+  reset(now: number): void {
+    this.active = [];
+    this.nextAt = this.scheduleAfter(now);
+  }
+}
@@ -0,0 +1,102 @@
+import { systemClock } from '../clock/Clock';
+import type { Clock } from '../clock/Clock';
+import { BigNum } from '../../utils/BigNum';
+import type { BigNumSource } from '../../utils/BigNum';
+
+/** What a modifier applies to: all production, one producer's unit rate, click value or typing rewards */
+export type ModifierTarget = 'global' | 'producer' | 'click' | 'typing';
+
+/**
+ * A single bonus or penalty in the pipeline.
+ * Additive modifiers are summed into the base value; multiplicative ones then scale the result.
+ */
+export interface Modifier {
+  /** Unique key; setting a modifier with an existing id replaces it */
+  id: string;
+  /** Display label shown in breakdowns, e.g. "Release Points (12)" */
+  source: string;
+  target: ModifierTarget;
+  /** Producer the modifier applies to (target 'producer' only) */
+  producerId?: string;
+  type: 'add' | 'mult';
+  value: BigNum;
+  /** Timestamp after which the modifier no longer applies */
+  expiresAt?: number;
+}
+
+export type ModifierInput = Omit<Modifier, 'value'> & { value: BigNumSource };
+
+/**
+ * Central modifier pipeline: every value source (production, click, typing) is computed as
+ * (base + Σ additive) × Π multiplicative over the active modifiers for its target.
+ * Subsystems register their modifiers here; expired ones are ignored and pruned on update.
+ */
+export class ModifierStack {
+  private modifiers = new Map<string, Modifier>();
+  private readonly clock: Clock;
+
+  constructor(clock: Clock = systemClock) {
+    this.clock = clock;
+  }
+
+  /** Add a modifier, replacing any existing modifier with the same id */
+  set(modifier: ModifierInput): void {
+    this.modifiers.set(modifier.id, { ...modifier, value: BigNum.from(modifier.value) });
+  }
+
+  remove(id: string): void {
+    this.modifiers.delete(id);
+  }
+
+  /** Remove every modifier whose id starts with the prefix (e.g. all "incident:" modifiers) */
+  removeByPrefix(prefix: string): void {
+    for (const id of this.modifiers.keys()) {
+      if (id.startsWith(prefix)) this.modifiers.delete(id);
+    }
+  }
+
+  /**
+   * Drop expired modifiers
+   * @returns True if any were removed (derived values need recomputing)
+   */
+  prune(now = this.clock.now()): boolean {
+    let removed = false;
+    for (const [id, modifier] of this.modifiers) {
+      if (modifier.expiresAt !== undefined && modifier.expiresAt <= now) {
+        this.modifiers.delete(id);
+        removed = true;
+      }
+    }
+    return removed;
+  }
+
+  /** Active modifiers for a target, in registration order */
+  getModifiers(target: ModifierTarget, producerId?: string): Modifier[] {
+    const now = this.clock.now();
+    return [...this.modifiers.values()].filter(m =>
+      m.target === target
+      && (target !== 'producer' || m.producerId === producerId)
+      && (m.expiresAt === undefined || m.expiresAt > now));
+  }
+
+  /** Sum of additive modifiers for a target */
+  getAdditive(target: ModifierTarget, producerId?: string): BigNum {
+    return this.getModifiers(target, producerId)
+      .reduce((sum, m) => m.type === 'add' ? sum.add(m.value) : sum, BigNum.ZERO);
+  }
+
+  /** Product of multiplicative modifiers for a target */
+  getMultiplier(target: ModifierTarget, producerId?: string): BigNum {
+    return this.getModifiers(target, producerId)
+      .reduce((product, m) => m.type === 'mult' ? product.mul(m.value) : product, BigNum.ONE);
+  }
+
+  /** Run a base value through the pipeline: (base + Σ additive) × Π multiplicative */
+  apply(base: BigNumSource, target: ModifierTarget, producerId?: string): BigNum {
+    return BigNum.from(base).add(this.getAdditive(target, producerId)).mul(this.getMultiplier(target, producerId));
+  }
+
+  clear(): void {
+    this.modifiers.clear();
+  }
+}
@@ -0,0 +1,236 @@
+import type { ProducerTier } from '../GameEngine';
+import type { ProducerManager } from '../producers/ProducerManager';
+import { getSecondsToAfford } from '../producers/valuation';
+import { PLANNER_CONFIG } from '../../constants/gameConstants';
+import type { BigNum, BigNumSource } from '../../utils/BigNum';
+
+/** What the player wants to reach: banked resources, a producer unlock or an upgrade */
+export type PlannerGoal =
+  | { type: 'resources'; amount: BigNumSource }
+  | { type: 'unlock'; producerId: string }
+  | { type: 'upgrade'; upgradeId: string };
+
+/** A goal reduced to numbers: hold `amount` resources while owning `required` units of a producer */
+export interface GoalTarget {
+  amount: BigNum;
+  required?: { producerId: string; count: number };
+}
+
+/** Consecutive purchases of one producer */
+export interface PlanStep {
+  producerId: string;
+  name: string;
+  count: number;
+  /** Total cost of the units in this step */
+  cost: BigNum;
+  /** Seconds from now until the first unit is bought */
+  startsInSeconds: number;
+  /** Units owned once the step is done */
+  quantityAfter: number;
+}
+
+export interface GoalPlan {
+  steps: PlanStep[];
+  /** Seconds until the goal is reached by following the steps (Infinity = unreachable from production alone) */
+  etaSeconds: number;
+  /** Seconds until the goal is reached without buying anything */
+  waitOnlySeconds: number;
+}
+
+/** Planning workload so far */
+export interface PlannerStats {
+  /** Plans computed */
+  plans: number;
+  /** Most purchases tried while building one plan */
+  largestSearch: number;
+}
+
+/** Snapshot of the run the plan starts from */
+export interface PlannerState {
+  resources: BigNum;
+  producers: ProducerTier[];
+  unlocked: ReadonlySet<string>;
+  /** Turn summed producer output into income (applies the 'global' modifiers) */
+  applyGlobal: (production: BigNum) => BigNum;
+}
+
+/** One partial purchase sequence in the search */
+interface PlanNode {
+  /** Seconds from now */
+  time: number;
+  resources: BigNum;
+  producers: ProducerTier[];
+  unlocked: ReadonlySet<string>;
+  /** Summed producer output before global modifiers */
+  production: BigNum;
+  income: BigNum;
+  /** Purchase that led here from the parent sequence (null for the starting state) */
+  purchase: { index: number; at: number; cost: BigNum } | null;
+  parent: PlanNode | null;
+}
+
+/**
+ * Plans the fastest producer purchase sequence towards a goal.
+ *
+ * Beam search over purchase sequences: each step tries buying one more unit of every unlocked
+ * producer (waiting until it is affordable at the sequence's income), keeps the sequences that
+ * would reach the goal soonest if they stopped buying, and remembers the best finish seen.
+ * Costs and rates come from ProducerManager, so upgrades, synergies and modifiers count;
+ * clicks, typing and incidents that have not started yet do not. Only resource producers paid
+ * purely in resources are planned.
+ */
+export class GoalPlanner {
+  private readonly producerManager: ProducerManager;
+  /** Unit costs by "index:quantity" for the plan being built (many sequences share them) */
+  private costs = new Map<string, BigNum>();
+  private stats: PlannerStats = { plans: 0, largestSearch: 0 };
+
+  constructor(producerManager: ProducerManager) {
+    this.producerManager = producerManager;
+  }
+
+  plan(state: PlannerState, target: GoalTarget): GoalPlan {
+    const production = this.producerManager.totalProduction(state.producers);
+    const root: PlanNode = {
+      time: 0,
+      resources: state.resources,
+      producers: state.producers,
+      unlocked: state.unlocked,
+      production,
+      income: state.applyGlobal(production),
+      purchase: null,
+      parent: null,
+    };
+    const waitOnlySeconds = this.finishTime(root, target);
+    let best = { node: root, eta: waitOnlySeconds };
+
+    let beam = [root];
+    let searched = 0;
+    for (let depth = 0; depth < PLANNER_CONFIG.maxPurchases && beam.length > 0; depth++) {
+      const children = new Map<string, { node: PlanNode; estimate: number }>();
+      for (const node of beam) {
+        for (let index = 0; index < node.producers.length; index++) {
+          const child = this.buy(node, index, state);
+          searched++;
+          if (!child || child.time >= best.eta) continue;
+          const eta = this.finishTime(child, target);
+          if (eta < best.eta) best = { node: child, eta };
+          // Sequences that end with the same units owned are interchangeable; keep the earliest
+          const key = child.producers.map(p => p.quantity).join(',');
+          const existing = children.get(key);
+          if (!existing || child.time < existing.node.time) children.set(key, { node: child, estimate: this.estimate(child, target) });
+        }
+      }
+      beam = [...children.values()]
+        .sort((a, b) => a.estimate - b.estimate)
+        .slice(0, PLANNER_CONFIG.beamWidth)
+        .map(c => c.node);
+    }
+
+    this.costs.clear();
+    this.stats = { plans: this.stats.plans + 1, largestSearch: Math.max(this.stats.largestSearch, searched) };
+    return { steps: this.toSteps(best.node, state.producers), etaSeconds: best.eta, waitOnlySeconds };
+  }
+
+  getStats(): PlannerStats {
+    return { ...this.stats };
+  }
+
+  /** Wait until one more unit of a producer is affordable and buy it; null if it is locked or never affordable */
+  private buy(node: PlanNode, index: number, state: PlannerState): PlanNode | null {
+    const producer = node.producers[index];
+    if (producer.id === 'codingSession' || !node.unlocked.has(producer.id)) return null;
+    // Income is tracked in resources only, so producers that make or cost other currencies are left out
+    if (producer.produces !== 'resources' || Object.keys(producer.extraCosts).length > 0) return null;
+    // Marginal rate includes the synergy boosts the unit adds, so the sum stays exact
+    const gain = this.producerManager.getMarginalRate(producer, node.producers);
+    if (gain <= 0) return null;
+    const cost = this.getCost(producer, index);
+    const wait = getSecondsToAfford(cost, node.resources, node.income);
+    if (!Number.isFinite(wait)) return null;
+
+    // Resources peak just before the purchase, which is when new producers unlock
+    const peak = wait > 0 ? cost : node.resources;
+    let unlocked = node.unlocked;
+    for (const p of node.producers) {
+      if (p.unlockThreshold && p.unlockThreshold > 0 && !unlocked.has(p.id) && peak.gte(p.unlockThreshold)) {
+        unlocked = new Set(unlocked).add(p.id);
+      }
+    }
+    const production = node.production.add(gain);
+    return {
+      time: node.time + wait,
+      resources: peak.sub(cost),
+      producers: node.producers.map((p, i) => (i === index ? { ...p, quantity: p.quantity + 1 } : p)),
+      unlocked,
+      production,
+      income: state.applyGlobal(production),
+      purchase: { index, at: node.time + wait, cost },
+      parent: node,
+    };
+  }
+
+  private getCost(producer: ProducerTier, index: number): BigNum {
+    const key = `${index}:${producer.quantity}`;
+    let cost = this.costs.get(key);
+    if (!cost) {
+      cost = this.producerManager.getCost(producer);
+      this.costs.set(key, cost);
+    }
+    return cost;
+  }
+
+  /** Units of the required producer still to buy */
+  private missingRequired(node: PlanNode, target: GoalTarget): number {
+    if (!target.required) return 0;
+    const { producerId, count } = target.required;
+    const owned = node.producers.find(p => p.id === producerId)?.quantity ?? 0;
+    return Math.max(0, count - owned);
+  }
+
+  /** Seconds from now until the goal is reached if the sequence buys nothing more */
+  private finishTime(node: PlanNode, target: GoalTarget): number {
+    if (this.missingRequired(node, target) > 0) return Infinity;
+    return node.time + getSecondsToAfford(target.amount, node.resources, node.income);
+  }
+
+  /** Ranking for the beam: like finishTime, but counts the cost of missing required units */
+  private estimate(node: PlanNode, target: GoalTarget): number {
+    const missing = this.missingRequired(node, target);
+    if (missing === 0 || !target.required) return this.finishTime(node, target);
+    const requiredId = target.required.producerId;
+    const producer = node.producers.find(p => p.id === requiredId);
+    if (!producer) return Infinity;
+    const needed = target.amount.add(this.producerManager.getBulkCost(producer, missing));
+    return node.time + getSecondsToAfford(needed, node.resources, node.income);
+  }
+
+  /** Group a sequence's purchases into steps of consecutive units of the same producer */
+  private toSteps(node: PlanNode, start: ProducerTier[]): PlanStep[] {
+    const purchases: NonNullable<PlanNode['purchase']>[] = [];
+    for (let n: PlanNode | null = node; n?.purchase; n = n.parent) purchases.unshift(n.purchase);
+
+    const steps: PlanStep[] = [];
+    const owned = start.map(p => p.quantity);
+    for (const purchase of purchases) {
+      const producer = start[purchase.index];
+      owned[purchase.index]++;
+      const last = steps.at(-1);
+      if (last && last.producerId === producer.id) {
+        last.count++;
+        last.cost = last.cost.add(purchase.cost);
+        last.quantityAfter = owned[purchase.index];
+      } else {
+        steps.push({
+          producerId: producer.id,
+          name: producer.name,
+          count: 1,
+          cost: purchase.cost,
+          startsInSeconds: purchase.at,
+          quantityAfter: owned[purchase.index],
+        });
+      }
+    }
+    return steps;
+  }
+}
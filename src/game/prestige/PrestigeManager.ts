@@ -0,0 +1,53 @@
+import { PRESTIGE_CONFIG } from '../../constants/gameConstants';
+import type { BigNum } from '../../utils/BigNum';
+
+/**
+ * Tracks the persistent prestige currency ("Release Points").
+ * Release Points survive a Ship to Production reset and grant a global production multiplier.
+ */
+export class PrestigeManager {
+  private releasePoints = 0;
+  private totalReleases = 0;
+
+  getReleasePoints(): number { return this.releasePoints; }
+
+  getTotalReleases(): number { return this.totalReleases; }
+
+  /**
+   * Release Points a reset would grant for the given run earnings
+   * Earnings past the number range would give Infinity, so points stop at Number.MAX_SAFE_INTEGER.
+   */
+  getPointsForEarnings(runEarnings: BigNum): number {
+    if (runEarnings.lt(PRESTIGE_CONFIG.minRunEarnings)) return 0;
+    const points = runEarnings.div(PRESTIGE_CONFIG.pointDivisor).sqrt();
+    return points.lt(Number.MAX_SAFE_INTEGER) ? Math.floor(points.toNumber()) : Number.MAX_SAFE_INTEGER;
+  }
+
+  canRelease(runEarnings: BigNum): boolean {
+    return this.getPointsForEarnings(runEarnings) > 0 && this.releasePoints < Number.MAX_SAFE_INTEGER;
+  }
+
+  /** Global production multiplier from owned Release Points */
+  getMultiplier(): number {
+    return 1 + this.releasePoints * PRESTIGE_CONFIG.multiplierPerPoint;
+  }
+
+  /** Convert run earnings into Release Points (the total also stops at Number.MAX_SAFE_INTEGER); returns points granted */
+  release(runEarnings: BigNum): number {
+    const points = Math.min(this.getPointsForEarnings(runEarnings), Number.MAX_SAFE_INTEGER - this.releasePoints);
+    if (points <= 0) return 0;
+    this.releasePoints += points;
+    this.totalReleases++;
+    return points;
+  }
+
+  load(data: { releasePoints?: number; totalReleases?: number }): void {
+    if (data.releasePoints !== undefined) this.releasePoints = data.releasePoints;
+    if (data.totalReleases !== undefined) this.totalReleases = data.totalReleases;
+  }
+
+  reset(): void {
+    this.releasePoints = 0;
+    this.totalReleases = 0;
+  }
+}
@@ -1,58 +1,222 @@
 import type { ProducerTier } from '../GameEngine';
+import { systemClock } from '../clock/Clock';
+import type { Clock } from '../clock/Clock';
+import { BigNum } from '../../utils/BigNum';
+import { ModifierStack } from '../modifiers/ModifierStack';
+import { SECONDARY_CURRENCIES } from '../currencies/Wallet';
+import type { CurrencyAmounts, CurrencyId, SecondaryCurrencyId, Wallet } from '../currencies/Wallet';
+import { findBestValue } from './valuation';
+
+/** Active synergy: each owned source unit adds bonusPerUnit to the target's output multiplier */
+export interface ProducerSynergy {
+  sourceId: string;
+  targetId: string;
+  /** Output bonus per source unit owned (0.01 = +1%) */
+  bonusPerUnit: number;
+  /** Name of the upgrade that granted the synergy */
+  upgradeName: string;
+}
 
 export class ProducerManager {
   private bestValueId: string | undefined;
   private lastCalc = 0;
+  private readonly clock: Clock;
+  /** Per-producer modifiers (producer upgrades, incidents) are read from the shared pipeline */
+  private readonly modifiers: ModifierStack;
+  private synergies: ProducerSynergy[] = [];
+
+  constructor(clock: Clock = systemClock, modifiers = new ModifierStack(clock)) {
+    this.clock = clock;
+    this.modifiers = modifiers;
+  }
+
+  /** Production per second of one unit after its 'producer' modifiers, before synergies */
+  getModifiedBaseRate(p: ProducerTier): number {
+    return this.modifiers.apply(p.productionRate, 'producer', p.id).toNumber();
+  }
+
+  setSynergies(synergies: ProducerSynergy[]): void {
+    this.synergies = synergies;
+  }
+
+  getSynergies(): readonly ProducerSynergy[] {
+    return this.synergies;
+  }
 
-  /** Calculate exponential cost */
-  getCost(p: ProducerTier): number {
-    return Math.floor(p.baseCost * Math.pow(p.costMultiplier, p.quantity));
+  /** Output multiplier a producer receives from synergies with other producers */
+  getSynergyMultiplier(p: ProducerTier, producers: ProducerTier[]): number {
+    let bonus = 0;
+    for (const s of this.synergies) {
+      if (s.targetId !== p.id) continue;
+      bonus += s.bonusPerUnit * (producers.find(x => x.id === s.sourceId)?.quantity ?? 0);
+    }
+    return 1 + bonus;
+  }
+
+  /** Production per second of one unit after producer modifiers and synergies */
+  getUnitRate(p: ProducerTier, producers: ProducerTier[]): number {
+    return this.getModifiedBaseRate(p) * this.getSynergyMultiplier(p, producers);
+  }
+
+  /**
+   * Production gained by buying one more unit: its own rate plus the synergy
+   * boost that unit gives to every producer it feeds (counted in the unit's own currency)
+   */
+  getMarginalRate(p: ProducerTier, producers: ProducerTier[]): number {
+    let gain = this.getUnitRate(p, producers);
+    for (const s of this.synergies) {
+      if (s.sourceId !== p.id) continue;
+      const target = producers.find(x => x.id === s.targetId);
+      if (target && target.produces === p.produces) gain += this.getModifiedBaseRate(target) * s.bonusPerUnit * target.quantity;
+    }
+    return gain;
+  }
+
+  /**
+   * Resources one unit of a secondary currency is worth: the most that an unlocked resource producer the
+   * wallet cannot yet pay for asks in resources per unit of it, with its resource cost shared equally among
+   * the currencies it also costs. A currency nothing is short of is worth nothing.
+   */
+  getCurrencyValue(id: SecondaryCurrencyId, producers: ProducerTier[], wallet: Wallet, isUnlocked: (id: string) => boolean): number {
+    let value = 0;
+    for (const c of producers) {
+      const base = c.extraCosts[id];
+      if (!base || c.produces !== 'resources' || !isUnlocked(c.id)) continue;
+      const needed = this.getSeriesCost(c, base, 1);
+      if (wallet.get(id).gte(needed)) continue;
+      const parts = SECONDARY_CURRENCIES.filter(x => c.extraCosts[x]).length;
+      value = Math.max(value, this.getCost(c).div(needed).toNumber() / parts);
+    }
+    return value;
   }
 
-  canAfford(p: ProducerTier, resources: number): boolean {
+  /**
+   * Resource production one more unit is worth (before global modifiers): its marginal rate, with output
+   * in another currency converted at getCurrencyValue
+   */
+  getResourceGain(p: ProducerTier, producers: ProducerTier[], wallet: Wallet, isUnlocked: (id: string) => boolean): number {
+    const rate = this.getMarginalRate(p, producers);
+    return p.produces === 'resources' ? rate : rate * this.getCurrencyValue(p.produces, producers, wallet, isUnlocked);
+  }
+
+  /** Calculate exponential cost (in resources) */
+  getCost(p: ProducerTier): BigNum {
+    return this.getSeriesCost(p, p.baseCost, 1);
+  }
+
+  /**
+   * Total resource cost of the next `count` units, using the geometric series
+   * cost × (m^count − 1) / (m − 1) on the current unit cost
+   */
+  getBulkCost(p: ProducerTier, count: number): BigNum {
+    return this.getSeriesCost(p, p.baseCost, count);
+  }
+
+  /** Secondary currency costs of the next `count` units (empty for producers paid in resources only) */
+  getExtraCosts(p: ProducerTier, count = 1): CurrencyAmounts {
+    const costs: CurrencyAmounts = {};
+    for (const id of SECONDARY_CURRENCIES) {
+      const base = p.extraCosts[id];
+      if (base) costs[id] = this.getSeriesCost(p, base, count);
+    }
+    return costs;
+  }
+
+  /** Geometric series cost of the next `count` units for one part of the cost, starting from `base` */
+  private getSeriesCost(p: ProducerTier, base: number, count: number): BigNum {
+    if (count <= 0) return BigNum.ZERO;
+    const unitCost = BigNum.from(base).mul(BigNum.from(p.costMultiplier).pow(p.quantity));
+    if (count === 1) return unitCost.floor();
+    if (p.costMultiplier === 1) return unitCost.mul(count).floor();
+    const growth = BigNum.from(p.costMultiplier).pow(count).sub(1).div(p.costMultiplier - 1);
+    return unitCost.mul(growth).floor();
+  }
+
+  /** Largest number of units affordable with the given resources and wallet (inverse of getBulkCost) */
+  getMaxAffordable(p: ProducerTier, resources: BigNum, wallet: Wallet): number {
+    let count = this.getMaxAffordableFor(p, p.baseCost, resources);
+    for (const id of SECONDARY_CURRENCIES) {
+      const base = p.extraCosts[id];
+      if (base) count = Math.min(count, this.getMaxAffordableFor(p, base, wallet.get(id)));
+    }
+    return count;
+  }
+
+  /** Largest number of units one part of the cost (starting from `base`) allows with `budget` */
+  private getMaxAffordableFor(p: ProducerTier, base: number, budget: BigNum): number {
+    const unitCost = BigNum.from(base).mul(BigNum.from(p.costMultiplier).pow(p.quantity));
+    if (!unitCost.gt(0) || budget.lt(this.getSeriesCost(p, base, 1))) return 0;
+    // Solve budget = unitCost × (m^n − 1) / (m − 1) for n, or budget = unitCost × n when m = 1
+    const solved = p.costMultiplier === 1
+      ? Math.floor(budget.div(unitCost).toNumber())
+      : Math.floor(budget.mul(p.costMultiplier - 1).div(unitCost).add(1).log10() / Math.log10(p.costMultiplier));
+    let count = Math.max(1, Math.min(solved, Number.MAX_SAFE_INTEGER));
+    // Flooring and float rounding leave the closed form at most one unit off, so correct by one step
+    if (this.getSeriesCost(p, base, count).gt(budget)) count--;
+    else if (count < Number.MAX_SAFE_INTEGER && this.getSeriesCost(p, base, count + 1).lte(budget)) count++;
+    return count;
+  }
+
+  canAfford(p: ProducerTier, resources: BigNum, wallet: Wallet): boolean {
     const cost = this.getCost(p);
-    return cost > 0 && resources >= cost;
+    return cost.gt(0) && resources.gte(cost) && wallet.canAfford(this.getExtraCosts(p));
   }
 
-  /** Recompute best value (cost per production) with 5s throttle */
-  recalcBestValue(producers: ProducerTier[], now = Date.now()): void {
+  /**
+   * Recompute the best value producer (shortest payback time at the current income,
+   * counting synergy boosts) with 5s throttle
+   */
+  recalcBestValue(producers: ProducerTier[], market: { resources: BigNum; income: BigNum; globalMultiplier: number; wallet: Wallet; isUnlocked: (id: string) => boolean }, now = this.clock.now()): void {
     if (now - this.lastCalc < 5000 && this.bestValueId) return;
     this.lastCalc = now;
 
-    const candidates = producers.filter(p => p.id !== 'codingSession' && p.productionRate > 0);
-    if (candidates.length === 0) { this.bestValueId = undefined; return; }
-
-    let best = candidates[0];
-    let bestRatio = this.getCost(best) / best.productionRate;
-    for (const p of candidates) {
-      const ratio = this.getCost(p) / p.productionRate;
-      if (ratio < bestRatio) { best = p; bestRatio = ratio; }
-    }
-    this.bestValueId = best.id;
+    // Payback is measured in resources (other output at its resource value), so only producers whose other costs are covered compete
+    const candidates = producers
+      .filter(p => p.id !== 'codingSession' && p.productionRate > 0 && market.wallet.canAfford(this.getExtraCosts(p)))
+      .map(p => ({
+        id: p.id,
+        cost: this.getCost(p),
+        gain: this.getResourceGain(p, producers, market.wallet, market.isUnlocked),
+        budget: market.resources,
+      }));
+    this.bestValueId = findBestValue(candidates, market.income, market.globalMultiplier)?.id;
   }
 
   getBestValueId(): string | undefined { return this.bestValueId; }
 
-  /** Unlock producers based on resources */
-  applyUnlocks(producers: ProducerTier[], resources: number, unlocked: Set<string>): void {
+  /** Unlock producers based on resources; returns the ids unlocked by this call */
+  applyUnlocks(producers: ProducerTier[], resources: BigNum, unlocked: Set<string>): string[] {
+    const newlyUnlocked: string[] = [];
     for (const p of producers) {
-      if (p.unlockThreshold && p.unlockThreshold > 0 && !unlocked.has(p.id) && resources >= p.unlockThreshold) {
+      if (p.unlockThreshold && p.unlockThreshold > 0 && !unlocked.has(p.id) && resources.gte(p.unlockThreshold)) {
         unlocked.add(p.id);
+        newlyUnlocked.push(p.id);
       }
     }
+    return newlyUnlocked;
   }
 
-  /** Perform a purchase and update totals */
-  purchase(target: ProducerTier, resources: number): { success: boolean; newResources: number } {
-    const cost = this.getCost(target);
-    if (resources < cost || cost <= 0) return { success: false, newResources: resources };
-    target.quantity++;
-    target.totalSpent += cost;
-    return { success: true, newResources: resources - cost };
+  /**
+   * Perform a purchase of `count` units and update totals
+   * Secondary currency costs are paid from the wallet; nothing is spent unless every part is affordable.
+   */
+  purchase(target: ProducerTier, resources: BigNum, wallet: Wallet, count = 1): { success: boolean; newResources: BigNum; cost: BigNum } {
+    const cost = this.getBulkCost(target, count);
+    if (resources.lt(cost) || !cost.gt(0)) return { success: false, newResources: resources, cost };
+    if (!wallet.spend(this.getExtraCosts(target, count))) return { success: false, newResources: resources, cost };
+    target.quantity += count;
+    target.totalSpent = target.totalSpent.add(cost);
+    return { success: true, newResources: resources.sub(cost), cost };
   }
 
-  /** Total production excluding manual */
-  totalProduction(producers: ProducerTier[]): number {
-    return producers.reduce((sum, p) => p.id === 'codingSession' ? sum : sum + p.productionRate * p.quantity, 0);
+  /**
+   * Total production of one currency excluding manual, with producer modifiers and synergies applied
+   * (global modifiers are not)
+   */
+  totalProduction(producers: ProducerTier[], currency: CurrencyId = 'resources'): BigNum {
+    return producers.reduce(
+      (sum, p) => p.id === 'codingSession' || p.produces !== currency ? sum : sum.add(BigNum.from(this.getUnitRate(p, producers)).mul(p.quantity)),
+      BigNum.ZERO,
+    );
   }
 }
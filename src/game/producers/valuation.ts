@@ -0,0 +1,56 @@
+import type { BigNum } from '../../utils/BigNum';
+
+/**
+ * Purchase valuation shared by the Best value badge and the auto-buyer.
+ *
+ * A purchase is ranked by its payback time: the seconds until it can be afforded at the
+ * current income, plus the seconds its extra production needs to earn the cost back.
+ * A cheap producer that is affordable now can beat a better ratio the player would wait minutes for.
+ */
+
+/** Something that can be valued: its cost, the production it adds and the resources available for it */
+export interface ValuedPurchase {
+  cost: BigNum;
+  /** Production per second gained (before global modifiers) */
+  gain: number;
+  /** Resources that may be spent on it */
+  budget: BigNum;
+}
+
+/**
+ * Seconds until `cost` is affordable from `resources` at `income` per second
+ * @returns 0 if already affordable, Infinity if it never will be at this income
+ */
+export function getSecondsToAfford(cost: BigNum, resources: BigNum, income: BigNum): number {
+  const shortfall = cost.sub(resources);
+  if (!shortfall.gt(0)) return 0;
+  return income.gt(0) ? shortfall.div(income).toNumber() : Infinity;
+}
+
+/** Seconds until a purchase has paid for itself: time to afford it plus time to earn its cost back */
+export function getPaybackSeconds(c: ValuedPurchase, income: BigNum, globalMultiplier: number): number {
+  const gain = c.gain * globalMultiplier;
+  if (gain <= 0) return Infinity;
+  return getSecondsToAfford(c.cost, c.budget, income) + c.cost.div(gain).toNumber();
+}
+
+/**
+ * Purchase with the shortest payback time. Ties (including nothing being affordable
+ * without income) go to the lowest cost per production gained, then to the first candidate.
+ */
+export function findBestValue<T extends ValuedPurchase>(candidates: T[], income: BigNum, globalMultiplier: number): T | undefined {
+  let best: T | undefined;
+  let bestSeconds = Infinity;
+  let bestRatio: BigNum | undefined;
+  for (const c of candidates) {
+    if (c.gain <= 0) continue;
+    const seconds = getPaybackSeconds(c, income, globalMultiplier);
+    const ratio = c.cost.div(c.gain);
+    if (!best || seconds < bestSeconds || (seconds === bestSeconds && bestRatio && ratio.lt(bestRatio))) {
+      best = c;
+      bestSeconds = seconds;
+      bestRatio = ratio;
+    }
+  }
+  return best;
+}
@@ -0,0 +1,123 @@
+import type { SavedResearch } from '../../types/game.types';
+import type { ResearchDef } from '../content/contentSchema';
+import type { EventBus } from '../events/EventBus';
+import type { GameEvents } from '../events/gameEvents';
+import type { ModifierInput } from '../modifiers/ModifierStack';
+
+/**
+ * Where a node stands: its prerequisites are missing ('locked'), it can be started ('available'),
+ * it is running or done, or another node of its exclusive group was chosen ('excluded')
+ */
+export type ResearchStatus = 'locked' | 'available' | 'researching' | 'completed' | 'excluded';
+
+/** The research in progress */
+export interface ActiveResearch {
+  id: string;
+  startedAt: number;
+  endsAt: number;
+}
+
+/**
+ * Research tree for the current run. One node is researched at a time; it finishes once its
+ * research time has passed (also while the game is closed) and its effects then join the modifier
+ * pipeline. Choosing a node of an exclusive group rules out the rest of the group for the run.
+ */
+export class ResearchManager {
+  private completed = new Set<string>();
+  private active: ActiveResearch | null = null;
+  private readonly defs: ResearchDef[];
+  private readonly events: EventBus<GameEvents>;
+
+  constructor(defs: ResearchDef[], events: EventBus<GameEvents>) {
+    this.defs = defs;
+    this.events = events;
+  }
+
+  getDef(id: string): ResearchDef | undefined {
+    return this.defs.find(d => d.id === id);
+  }
+
+  getStatus(id: string): ResearchStatus {
+    const def = this.getDef(id);
+    if (!def) return 'locked';
+    if (this.completed.has(id)) return 'completed';
+    if (this.active?.id === id) return 'researching';
+    if (this.isExcluded(def)) return 'excluded';
+    return def.requires.every(r => this.completed.has(r)) ? 'available' : 'locked';
+  }
+
+  /** Whether another node of the same exclusive group is finished or in progress */
+  private isExcluded(def: ResearchDef): boolean {
+    if (!def.exclusiveGroup) return false;
+    return this.defs.some(d => d.id !== def.id && d.exclusiveGroup === def.exclusiveGroup
+      && (this.completed.has(d.id) || this.active?.id === d.id));
+  }
+
+  getActive(): ActiveResearch | null {
+    return this.active;
+  }
+
+  getCompletedIds(): string[] {
+    return [...this.completed];
+  }
+
+  /** Whether a node can start now: available and no other research running (costs are checked by the caller) */
+  canStart(id: string): boolean {
+    return this.active === null && this.getStatus(id) === 'available';
+  }
+
+  /**
+   * Start researching a node whose cost the caller has already paid
+   * @returns false if the node cannot start
+   */
+  start(id: string, now: number): boolean {
+    const def = this.getDef(id);
+    if (!def || !this.canStart(id)) return false;
+    this.active = { id, startedAt: now, endsAt: now + def.researchSeconds * 1000 };
+    this.events.emit('researchStarted', { researchId: id, endsAt: this.active.endsAt });
+    return true;
+  }
+
+  /**
+   * Finish the running research once its time is up
+   * @returns True if research finished (modifiers need rebuilding)
+   */
+  update(now: number): boolean {
+    if (!this.active || this.active.endsAt > now) return false;
+    const { id } = this.active;
+    this.completed.add(id);
+    this.active = null;
+    this.events.emit('researchCompleted', { researchId: id });
+    return true;
+  }
+
+  /** Multipliers granted by finished research, for the modifier pipeline */
+  getModifiers(): ModifierInput[] {
+    const modifiers: ModifierInput[] = [];
+    for (const def of this.defs) {
+      if (!this.completed.has(def.id)) continue;
+      for (const effect of def.effects) {
+        modifiers.push(effect.type === 'producer'
+          ? { id: `research:${def.id}:${effect.producerId}`, source: def.name, target: 'producer', producerId: effect.producerId, type: 'mult', value: effect.factor }
+          : { id: `research:${def.id}:click`, source: def.name, target: 'click', type: 'mult', value: effect.factor });
+      }
+    }
+    return modifiers;
+  }
+
+  /** Forget all research (new run) */
+  reset(): void {
+    this.completed.clear();
+    this.active = null;
+  }
+
+  save(): SavedResearch {
+    return { completed: [...this.completed], active: this.active ? { ...this.active } : null };
+  }
+
+  /** Restore validated research state */
+  load(data: SavedResearch): void {
+    this.completed = new Set(data.completed);
+    this.active = data.active ? { ...data.active } : null;
+  }
+}
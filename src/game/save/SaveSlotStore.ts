@@ -0,0 +1,154 @@
+import { SAVE_BACKUP_KEY, SAVE_KEY, SAVE_SLOTS_KEY } from '../../constants/gameConstants';
+
+/**
+ * Named save slots persisted in localStorage.
+ *
+ * The slot index lives under SAVE_SLOTS_KEY; each slot's save JSON lives under its own key.
+ * The default "main" slot keeps using SAVE_KEY so saves from before slots existed carry over.
+ * Saves that failed to load are backed up per slot, so one broken slot cannot replace another's backup.
+ */
+
+/** Summary shown in the slot list without loading the save */
+export interface SaveSlotMeta {
+  /** Timestamp the slot was last written */
+  lastPlayed: number;
+  /** Serialized BigNum (indexes written before v2 saves hold a plain number; BigNum.from accepts both) */
+  resources: string;
+  /** Name of the highest producer tier owned, if any */
+  highestProducer: string | null;
+}
+
+export interface SaveSlot {
+  id: string;
+  name: string;
+  createdAt: number;
+  meta: SaveSlotMeta | null;
+}
+
+interface SlotIndex {
+  activeSlotId: string;
+  slots: SaveSlot[];
+}
+
+const MAIN_SLOT_ID = 'main';
+
+export class SaveSlotStore {
+  private readonly storage: Storage;
+  private index: SlotIndex;
+
+  constructor(storage: Storage = localStorage) {
+    this.storage = storage;
+    this.index = this.readIndex();
+  }
+
+  private readIndex(): SlotIndex {
+    try {
+      const raw = this.storage.getItem(SAVE_SLOTS_KEY);
+      if (raw) {
+        const parsed = JSON.parse(raw) as SlotIndex;
+        if (Array.isArray(parsed.slots) && parsed.slots.length > 0) {
+          const activeSlotId = parsed.slots.some(s => s.id === parsed.activeSlotId) ? parsed.activeSlotId : parsed.slots[0].id;
+          return { activeSlotId, slots: parsed.slots };
+        }
+      }
+    } catch (error) {
+      console.error('Failed to read save slots:', error);
+    }
+    return { activeSlotId: MAIN_SLOT_ID, slots: [{ id: MAIN_SLOT_ID, name: 'Main', createdAt: Date.now(), meta: null }] };
+  }
+
+  private writeIndex(): void {
+    this.storage.setItem(SAVE_SLOTS_KEY, JSON.stringify(this.index));
+  }
+
+  private storageKey(id: string): string {
+    return id === MAIN_SLOT_ID ? SAVE_KEY : `${SAVE_KEY}_${id}`;
+  }
+
+  private backupKey(id: string): string {
+    return id === MAIN_SLOT_ID ? SAVE_BACKUP_KEY : `${SAVE_BACKUP_KEY}_${id}`;
+  }
+
+  list(): SaveSlot[] {
+    return this.index.slots.map(s => ({ ...s }));
+  }
+
+  getActiveId(): string {
+    return this.index.activeSlotId;
+  }
+
+  has(id: string): boolean {
+    return this.index.slots.some(s => s.id === id);
+  }
+
+  setActive(id: string): boolean {
+    if (!this.has(id)) return false;
+    this.index.activeSlotId = id;
+    this.writeIndex();
+    return true;
+  }
+
+  /** Raw save JSON for a slot, or null if the slot has never been saved */
+  read(id: string): string | null {
+    return this.storage.getItem(this.storageKey(id));
+  }
+
+  /** Keep a copy of a slot's save that failed to load */
+  backup(id: string, raw: string): void {
+    this.storage.setItem(this.backupKey(id), raw);
+  }
+
+  write(id: string, saveJson: string, meta: SaveSlotMeta): void {
+    const slot = this.index.slots.find(s => s.id === id);
+    if (!slot) return;
+    this.storage.setItem(this.storageKey(id), saveJson);
+    slot.meta = meta;
+    this.writeIndex();
+  }
+
+  /** Remove a slot's save data but keep the slot itself */
+  clear(id: string): void {
+    const slot = this.index.slots.find(s => s.id === id);
+    if (!slot) return;
+    this.storage.removeItem(this.storageKey(id));
+    slot.meta = null;
+    this.writeIndex();
+  }
+
+  create(name: string): SaveSlot {
+    const slot: SaveSlot = { id: `slot-${Date.now().toString(36)}`, name: name.trim() || 'New Slot', createdAt: Date.now(), meta: null };
+    while (this.has(slot.id)) slot.id += 'x';
+    this.index.slots.push(slot);
+    this.writeIndex();
+    return { ...slot };
+  }
+
+  rename(id: string, name: string): boolean {
+    const slot = this.index.slots.find(s => s.id === id);
+    if (!slot || !name.trim()) return false;
+    slot.name = name.trim();
+    this.writeIndex();
+    return true;
+  }
+
+  duplicate(id: string): SaveSlot | null {
+    const source = this.index.slots.find(s => s.id === id);
+    if (!source) return null;
+    const copy = this.create(`${source.name} (copy)`);
+    const raw = this.read(id);
+    if (raw !== null) {
+      this.write(copy.id, raw, source.meta ? { ...source.meta } : { lastPlayed: Date.now(), resources: '0', highestProducer: null });
+    }
+    return this.list().find(s => s.id === copy.id) ?? null;
+  }
+
+  /** Delete a slot and its save; the active slot and the last remaining slot cannot be deleted */
+  delete(id: string): boolean {
+    if (id === this.index.activeSlotId || this.index.slots.length <= 1 || !this.has(id)) return false;
+    this.storage.removeItem(this.storageKey(id));
+    this.storage.removeItem(this.backupKey(id));
+    this.index.slots = this.index.slots.filter(s => s.id !== id);
+    this.writeIndex();
+    return true;
+  }
+}
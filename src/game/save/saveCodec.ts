@@ -0,0 +1,60 @@
+import { SaveValidationError } from './saveSchema';
+
+/**
+ * Portable save string codec.
+ *
+ * Format: `IW1.<base64url JSON payload>.<FNV-1a checksum of payload, hex>`
+ * The payload is not validated here; pass the decoded object to `GameEngine.load()`.
+ */
+
+const CODEC_PREFIX = 'IW1';
+
+/** 32-bit FNV-1a hash, hex encoded */
+function checksum(text: string): string {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16).padStart(8, '0');
+}
+
+function toBase64Url(text: string): string {
+  const bytes = new TextEncoder().encode(text);
+  let binary = '';
+  for (const byte of bytes) binary += String.fromCharCode(byte);
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function fromBase64Url(encoded: string): string {
+  const base64 = encoded.replace(/-/g, '+').replace(/_/g, '/');
+  const binary = atob(base64 + '='.repeat((4 - (base64.length % 4)) % 4));
+  const bytes = Uint8Array.from(binary, ch => ch.charCodeAt(0));
+  return new TextDecoder().decode(bytes);
+}
+
+/** Encode save data as a compact, checksummed string */
+export function encodeSave(saveData: unknown): string {
+  const payload = toBase64Url(JSON.stringify(saveData));
+  return `${CODEC_PREFIX}.${payload}.${checksum(payload)}`;
+}
+
+/**
+ * Decode an exported save string back into raw save data
+ * @throws SaveValidationError if the string is malformed or the checksum does not match
+ */
+export function decodeSave(code: string): unknown {
+  const parts = code.trim().split('.');
+  if (parts.length !== 3 || parts[0] !== CODEC_PREFIX) {
+    throw new SaveValidationError(['not an Idle Webz save string']);
+  }
+  const [, payload, sum] = parts;
+  if (checksum(payload) !== sum) {
+    throw new SaveValidationError(['checksum mismatch (the save string is incomplete or was edited)']);
+  }
+  try {
+    return JSON.parse(fromBase64Url(payload));
+  } catch {
+    throw new SaveValidationError(['save payload could not be decoded']);
+  }
+}
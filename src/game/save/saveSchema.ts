@@ -0,0 +1,500 @@
+import { HISTORY_CONFIG, REPEATABLE_IDS, SAVE_VERSION, TYPING_CONFIG } from '../../constants/gameConstants';
+import { INCIDENTS } from '../../constants/incidents';
+import type { SaveData, SavedAutoBuySettings, SavedCurrencies, SavedHistory, SavedIncidents, SavedProducer, SavedResearch, SavedStats, SavedTypingAnalytics, TypingCounts } from '../../types/game.types';
+import { BigNum } from '../../utils/BigNum';
+import { SeededRandom } from '../../utils/SeededRandom';
+import { EARNING_SOURCES } from '../stats/StatsTracker';
+import { DEFAULT_AUTO_BUY_STRATEGY, isAutoBuyStrategy } from '../autobuy/autoBuyStrategies';
+import { SECONDARY_CURRENCIES } from '../currencies/Wallet';
+
+/**
+ * Save schema: versioned migrations plus runtime validation.
+ *
+ * Loading a save runs `migrateSave` (oldest → newest) and then `validateSave`,
+ * which checks every field of the current `SaveData` contract.
+ */
+
+type RawSave = Record<string, unknown>;
+
+/** Thrown when save data cannot be loaded; `issues` lists every problem found */
+export class SaveValidationError extends Error {
+  public readonly issues: string[];
+
+  constructor(issues: string[]) {
+    super(`Invalid save data: ${issues.join('; ')}`);
+    this.name = 'SaveValidationError';
+    this.issues = issues;
+  }
+}
+
+/** Known ids the save is validated against */
+export interface SaveSchemaContext {
+  producerIds: string[];
+  upgradeIds: string[];
+  achievementIds: string[];
+  /** Research nodes with their prerequisites and exclusive group */
+  research: Array<{ id: string; requires: string[]; exclusiveGroup?: string }>;
+  /** Highest auto-buy speed level allowed by the loaded content */
+  maxAutoBuySpeedLevel: number;
+  /** Current time, used as the default for missing timestamps */
+  now: number;
+}
+
+/**
+ * Ordered migrations: SAVE_MIGRATIONS[n] upgrades a version n save to version n + 1.
+ * Saves written before versioning existed are treated as version 0.
+ */
+export const SAVE_MIGRATIONS: Array<(data: RawSave, now: number) => RawSave> = [
+  // 0 → 1: fold legacy unlock flags into purchasedUpgrades and fill fields added later
+  (data, now) => {
+    const { autoBuyUnlocked, typingUnlocked, ...rest } = data;
+    const purchased = Array.isArray(rest.purchasedUpgrades) ? [...rest.purchasedUpgrades] : [];
+    if (autoBuyUnlocked === true && !purchased.includes('autoBuy')) purchased.push('autoBuy');
+    if (typingUnlocked === true && !purchased.includes('typing')) purchased.push('typing');
+    return {
+      resources: 0,
+      lastUpdate: now,
+      autoBuyEnabled: false,
+      autoBuySpeedLevel: 0,
+      unlockedProducers: ['codingSession'],
+      clickPowerLevel: 0,
+      challengesEnabled: true,
+      runEarnings: 0,
+      releasePoints: 0,
+      totalReleases: 0,
+      unlockedAchievements: [],
+      wordsTyped: 0,
+      completedChallenges: 0,
+      ...rest,
+      producers: (Array.isArray(rest.producers) ? rest.producers : []).map((p: unknown) =>
+        isRecord(p) ? { totalSpent: 0, ...p } : p),
+      purchasedUpgrades: purchased,
+    };
+  },
+  // 1 → 2: large amounts are stored as BigNum strings instead of JSON numbers
+  (data) => ({
+    ...data,
+    resources: toBigString(data.resources),
+    runEarnings: toBigString(data.runEarnings),
+    producers: Array.isArray(data.producers)
+      ? data.producers.map((p: unknown) => (isRecord(p) ? { ...p, totalSpent: toBigString(p.totalSpent) } : p))
+      : data.producers,
+  }),
+  // 2 → 3: lifetime statistics (counting starts from the migration)
+  (data) => ({
+    stats: {
+      lifetimeEarned: '0',
+      earnedBySource: {},
+      earnedByProducer: {},
+      totalClicks: 0,
+      playTimeSeconds: 0,
+      sessionCount: 0,
+      peakProductionRate: '0',
+    },
+    ...data,
+  }),
+  // 3 → 4: production history for the charts
+  (data) => ({ history: { tiers: {}, markers: [] }, ...data }),
+  // 4 → 5: random incidents (a fresh random sequence, first incident scheduled on load)
+  (data) => ({ incidents: { rngState: SeededRandom.randomSeed(), nextAt: null, active: [] }, ...data }),
+  // 5 → 6: auto-buy strategy and per-producer rules (the same default strategy as a new game)
+  (data) => ({ autoBuySettings: { strategy: DEFAULT_AUTO_BUY_STRATEGY, rules: {}, lastPurchasedId: null }, ...data }),
+  // 6 → 7: Upgrade Bot opt-ins (nothing opted in)
+  (data) => (isRecord(data.autoBuySettings) ? { ...data, autoBuySettings: { upgrades: [], ...data.autoBuySettings } } : data),
+  // 7 → 8: Commits, Coffee and Tech Debt (none held yet)
+  (data) => ({ currencies: { commits: '0', coffee: '0', techDebt: '0' }, ...data }),
+  // 8 → 9: research tree (nothing researched yet)
+  (data) => ({ research: { completed: [], active: null }, ...data }),
+  // 9 → 10: typing analytics (nothing measured yet)
+  (data) => ({
+    typing: { lifetime: { chars: 0, words: 0, rejectedChars: 0, challengeChars: 0, challengeMistakes: 0 }, peakWpm: 0, sessions: [] },
+    ...data,
+  }),
+];
+
+/** Convert a legacy numeric amount to its serialized BigNum form; anything else is left for validation to report */
+function toBigString(value: unknown): unknown {
+  return typeof value === 'number' && Number.isFinite(value) ? BigNum.from(value).toString() : value;
+}
+
+function isRecord(value: unknown): value is RawSave {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Bring raw save data up to SAVE_VERSION
+ * @throws SaveValidationError if the data is not an object or comes from a newer version
+ */
+export function migrateSave(raw: unknown, now = Date.now()): RawSave {
+  if (!isRecord(raw)) throw new SaveValidationError(['save data is not an object']);
+  const version = raw.version === undefined ? 0 : raw.version;
+  if (typeof version !== 'number' || !Number.isInteger(version) || version < 0) {
+    throw new SaveValidationError([`version must be a non-negative integer (got ${String(version)})`]);
+  }
+  if (version > SAVE_VERSION) {
+    throw new SaveValidationError([`save version ${version} is newer than supported version ${SAVE_VERSION}`]);
+  }
+  let data = raw;
+  for (let v = version; v < SAVE_VERSION; v++) {
+    data = SAVE_MIGRATIONS[v](data, now);
+  }
+  return { ...data, version: SAVE_VERSION };
+}
+
+/**
+ * Validate a migrated save against the SaveData contract.
+ * Invalid fields are replaced with safe defaults and reported in `issues`,
+ * so callers can either reject the save or accept the repaired version.
+ */
+export function validateSave(data: RawSave, ctx: SaveSchemaContext): { save: SaveData; issues: string[] } {
+  const issues: string[] = [];
+
+  const num = (key: string, fallback: number, opts: { integer?: boolean; max?: number } = {}): number => {
+    const value = data[key];
+    if (typeof value !== 'number' || !Number.isFinite(value)) {
+      issues.push(`${key} must be a finite number (got ${String(value)})`);
+      return fallback;
+    }
+    if (value < 0) { issues.push(`${key} must not be negative (got ${value})`); return fallback; }
+    if (opts.integer && !Number.isInteger(value)) { issues.push(`${key} must be an integer (got ${value})`); return fallback; }
+    if (opts.max !== undefined && value > opts.max) { issues.push(`${key} must be at most ${opts.max} (got ${value})`); return opts.max; }
+    return value;
+  };
+
+  const big = (value: unknown, label: string): BigNum | null => {
+    const parsed = typeof value === 'string' ? BigNum.tryFrom(value) : null;
+    if (!parsed) { issues.push(`${label} must be a numeric string (got ${JSON.stringify(value)})`); return null; }
+    if (parsed.isNegative()) { issues.push(`${label} must not be negative (got ${value as string})`); return null; }
+    return parsed;
+  };
+
+  const bool = (key: string, fallback: boolean): boolean => {
+    const value = data[key];
+    if (typeof value !== 'boolean') { issues.push(`${key} must be a boolean (got ${String(value)})`); return fallback; }
+    return value;
+  };
+
+  const ids = (key: string, known: string[], fallback: string[]): string[] => {
+    const value = data[key];
+    if (!Array.isArray(value)) { issues.push(`${key} must be an array`); return fallback; }
+    const result: string[] = [];
+    for (const id of value) {
+      if (typeof id !== 'string' || !known.includes(id)) { issues.push(`${key} contains unknown id ${JSON.stringify(id)}`); continue; }
+      if (!result.includes(id)) result.push(id);
+    }
+    return result;
+  };
+
+  const producers: SavedProducer[] = [];
+  if (!Array.isArray(data.producers)) {
+    issues.push('producers must be an array');
+  } else {
+    for (const entry of data.producers) {
+      if (!isRecord(entry) || typeof entry.id !== 'string' || !ctx.producerIds.includes(entry.id)) {
+        issues.push(`producers contains unknown entry ${JSON.stringify(isRecord(entry) ? entry.id : entry)}`);
+        continue;
+      }
+      const { id, quantity, totalSpent } = entry;
+      if (typeof quantity !== 'number' || !Number.isInteger(quantity) || quantity < 0) {
+        issues.push(`producer ${id} quantity must be a non-negative integer (got ${String(quantity)})`);
+        continue;
+      }
+      const spent = big(totalSpent, `producer ${id} totalSpent`);
+      producers.push({ id, quantity, totalSpent: (spent ?? BigNum.ZERO).toString() });
+    }
+  }
+
+  const stats = validateStats(data.stats, ctx, issues, big);
+  const history = validateHistory(data.history, ctx, issues);
+  const incidents = validateIncidents(data.incidents, ctx, issues);
+  const autoBuySettings = validateAutoBuySettings(data.autoBuySettings, ctx, issues, big);
+  const currencies = validateCurrencies(data.currencies, issues, big);
+  const research = validateResearch(data.research, ctx, issues);
+  const typing = validateTyping(data.typing, issues);
+
+  const save: SaveData = {
+    version: SAVE_VERSION,
+    resources: (big(data.resources, 'resources') ?? BigNum.ZERO).toString(),
+    producers,
+    lastUpdate: num('lastUpdate', ctx.now),
+    autoBuyEnabled: bool('autoBuyEnabled', false),
+    autoBuySpeedLevel: num('autoBuySpeedLevel', 0, { integer: true, max: ctx.maxAutoBuySpeedLevel }),
+    unlockedProducers: ids('unlockedProducers', ctx.producerIds, ['codingSession']),
+    purchasedUpgrades: ids('purchasedUpgrades', ctx.upgradeIds, []),
+    clickPowerLevel: num('clickPowerLevel', 0, { integer: true }),
+    challengesEnabled: bool('challengesEnabled', true),
+    runEarnings: (big(data.runEarnings, 'runEarnings') ?? BigNum.ZERO).toString(),
+    releasePoints: num('releasePoints', 0, { integer: true }),
+    totalReleases: num('totalReleases', 0, { integer: true }),
+    unlockedAchievements: ids('unlockedAchievements', ctx.achievementIds, []),
+    wordsTyped: num('wordsTyped', 0, { integer: true }),
+    completedChallenges: num('completedChallenges', 0, { integer: true }),
+    stats,
+    history,
+    incidents,
+    autoBuySettings,
+    currencies,
+    research,
+    typing,
+  };
+
+  const knownKeys = new Set<string>(Object.keys(save));
+  for (const key of Object.keys(data)) {
+    if (!knownKeys.has(key)) issues.push(`unknown field ${key}`);
+  }
+
+  return { save, issues };
+}
+
+/** Validate the nested stats object; invalid entries are dropped or zeroed */
+function validateStats(
+  value: unknown,
+  ctx: SaveSchemaContext,
+  issues: string[],
+  big: (value: unknown, label: string) => BigNum | null,
+): SavedStats {
+  const stats: SavedStats = {
+    lifetimeEarned: '0', earnedBySource: {}, earnedByProducer: {},
+    totalClicks: 0, playTimeSeconds: 0, sessionCount: 0, peakProductionRate: '0',
+  };
+  if (!isRecord(value)) { issues.push('stats must be an object'); return stats; }
+
+  stats.lifetimeEarned = (big(value.lifetimeEarned, 'stats.lifetimeEarned') ?? BigNum.ZERO).toString();
+  stats.peakProductionRate = (big(value.peakProductionRate, 'stats.peakProductionRate') ?? BigNum.ZERO).toString();
+  for (const key of ['totalClicks', 'playTimeSeconds', 'sessionCount'] as const) {
+    const count = value[key];
+    const integer = key !== 'playTimeSeconds';
+    if (typeof count !== 'number' || !Number.isFinite(count) || count < 0 || (integer && !Number.isInteger(count))) {
+      issues.push(`stats.${key} must be a non-negative ${integer ? 'integer' : 'number'} (got ${String(count)})`);
+    } else {
+      stats[key] = count;
+    }
+  }
+
+  const amounts = (key: 'earnedBySource' | 'earnedByProducer', known: readonly string[]) => {
+    const record = value[key];
+    if (!isRecord(record)) { issues.push(`stats.${key} must be an object`); return; }
+    for (const [id, amount] of Object.entries(record)) {
+      if (!known.includes(id)) { issues.push(`stats.${key} contains unknown id ${JSON.stringify(id)}`); continue; }
+      const parsed = big(amount, `stats.${key}.${id}`);
+      if (parsed) stats[key][id] = parsed.toString();
+    }
+  };
+  amounts('earnedBySource', EARNING_SOURCES);
+  amounts('earnedByProducer', ctx.producerIds);
+
+  for (const key of Object.keys(value)) {
+    if (!(key in stats)) issues.push(`unknown field stats.${key}`);
+  }
+  return stats;
+}
+
+/** Validate saved production history; malformed tiers or markers are dropped */
+function validateHistory(value: unknown, ctx: SaveSchemaContext, issues: string[]): SavedHistory {
+  const history: SavedHistory = { tiers: {}, markers: [] };
+  if (!isRecord(value) || !isRecord(value.tiers) || !Array.isArray(value.markers)) {
+    issues.push('history must be an object with tiers and markers');
+    return history;
+  }
+
+  const tierIds: string[] = HISTORY_CONFIG.tiers.filter(t => t.persist).map(t => t.id);
+  for (const [id, tier] of Object.entries(value.tiers)) {
+    if (!tierIds.includes(id)) { issues.push(`history.tiers contains unknown tier ${JSON.stringify(id)}`); continue; }
+    const valid = isRecord(tier) && typeof tier.start === 'number' && Number.isFinite(tier.start)
+      && Array.isArray(tier.samples) && tier.samples.every(sample =>
+        Array.isArray(sample) && sample.length === 3 && typeof sample[0] === 'number' && Number.isFinite(sample[0])
+        && [sample[1], sample[2]].every(v => typeof v === 'string' && BigNum.tryFrom(v) !== null));
+    if (!valid) { issues.push(`history.tiers.${id} is malformed`); continue; }
+    history.tiers[id] = { start: tier.start as number, samples: tier.samples as Array<[number, string, string]> };
+  }
+
+  const knownIds = { unlock: ctx.producerIds, upgrade: ctx.upgradeIds, release: ['release'] } as Record<string, string[]>;
+  for (const marker of value.markers) {
+    const valid = Array.isArray(marker) && marker.length === 3 && typeof marker[0] === 'number' && Number.isFinite(marker[0])
+      && typeof marker[1] === 'string' && marker[1] in knownIds && knownIds[marker[1]].includes(marker[2]);
+    if (!valid) { issues.push(`history.markers contains invalid marker ${JSON.stringify(marker)}`); continue; }
+    history.markers.push(marker as SavedHistory['markers'][number]);
+  }
+  return history;
+}
+
+/** Validate saved incidents; unknown or malformed active incidents are dropped */
+function validateIncidents(value: unknown, ctx: SaveSchemaContext, issues: string[]): SavedIncidents {
+  const finite = (v: unknown): v is number => typeof v === 'number' && Number.isFinite(v);
+  if (!isRecord(value) || !finite(value.rngState) || !Array.isArray(value.active)) {
+    issues.push('incidents must be an object with rngState and active');
+    return { rngState: SeededRandom.randomSeed(), nextAt: null, active: [] };
+  }
+  const incidents: SavedIncidents = { rngState: value.rngState >>> 0, nextAt: null, active: [] };
+  if (finite(value.nextAt)) incidents.nextAt = value.nextAt;
+  else if (value.nextAt !== null) issues.push('incidents.nextAt must be a number or null');
+
+  for (const entry of value.active) {
+    const def = isRecord(entry) ? INCIDENTS.find(d => d.id === entry.id) : undefined;
+    let valid = !!def && isRecord(entry) && finite(entry.startedAt) && finite(entry.endsAt)
+      && !incidents.active.some(a => a.id === entry.id);
+    if (valid && def?.kind === 'prodOutage') {
+      const e = entry as RawSave;
+      valid = typeof e.producerId === 'string' && ctx.producerIds.includes(e.producerId)
+        && typeof e.fixCommand === 'string' && def.fixCommands.includes(e.fixCommand)
+        && Number.isInteger(e.fixProgress) && (e.fixProgress as number) >= 0 && (e.fixProgress as number) < e.fixCommand.length;
+    }
+    if (!valid) { issues.push(`incidents.active contains invalid incident ${JSON.stringify(entry)}`); continue; }
+    incidents.active.push(entry as SavedIncidents['active'][number]);
+  }
+  return incidents;
+}
+
+/** Validate auto-buy settings; an unknown strategy falls back to the default and invalid rules are dropped */
+function validateAutoBuySettings(
+  value: unknown,
+  ctx: SaveSchemaContext,
+  issues: string[],
+  big: (value: unknown, label: string) => BigNum | null,
+): SavedAutoBuySettings {
+  const settings: SavedAutoBuySettings = { strategy: DEFAULT_AUTO_BUY_STRATEGY, rules: {}, lastPurchasedId: null, upgrades: [] };
+  if (!isRecord(value) || !isRecord(value.rules)) {
+    issues.push('autoBuySettings must be an object with strategy and rules');
+    return settings;
+  }
+  if (isAutoBuyStrategy(value.strategy)) settings.strategy = value.strategy;
+  else issues.push(`autoBuySettings.strategy ${JSON.stringify(value.strategy)} is unknown`);
+
+  for (const [id, rule] of Object.entries(value.rules)) {
+    const label = `autoBuySettings.rules.${id}`;
+    if (!ctx.producerIds.includes(id) || id === 'codingSession') { issues.push(`${label} refers to an unknown producer`); continue; }
+    const valid = isRecord(rule) && typeof rule.enabled === 'boolean'
+      && (rule.maxOwned === null || (Number.isInteger(rule.maxOwned) && (rule.maxOwned as number) >= 0));
+    const reserve = isRecord(rule) ? big(rule.reserve, `${label}.reserve`) : null;
+    if (!valid || !reserve) { issues.push(`${label} is malformed`); continue; }
+    settings.rules[id] = { enabled: rule.enabled as boolean, maxOwned: rule.maxOwned as number | null, reserve: reserve.toString() };
+  }
+
+  const lastId = value.lastPurchasedId;
+  if (typeof lastId === 'string' && ctx.producerIds.includes(lastId)) settings.lastPurchasedId = lastId;
+  else if (lastId !== null) issues.push('autoBuySettings.lastPurchasedId must be a producer id or null');
+
+  const knownUpgrades = [...ctx.upgradeIds, ...Object.values(REPEATABLE_IDS)];
+  if (!Array.isArray(value.upgrades)) {
+    issues.push('autoBuySettings.upgrades must be an array');
+  } else {
+    for (const id of value.upgrades) {
+      if (typeof id === 'string' && knownUpgrades.includes(id)) {
+        if (!settings.upgrades.includes(id)) settings.upgrades.push(id);
+      } else {
+        issues.push(`autoBuySettings.upgrades contains unknown id ${JSON.stringify(id)}`);
+      }
+    }
+  }
+  return settings;
+}
+
+/** Validate secondary currency balances; missing or invalid balances are zeroed */
+function validateCurrencies(
+  value: unknown,
+  issues: string[],
+  big: (value: unknown, label: string) => BigNum | null,
+): SavedCurrencies {
+  const currencies = Object.fromEntries(SECONDARY_CURRENCIES.map(id => [id, '0'])) as SavedCurrencies;
+  if (!isRecord(value)) { issues.push('currencies must be an object'); return currencies; }
+  for (const id of SECONDARY_CURRENCIES) {
+    currencies[id] = (big(value[id], `currencies.${id}`) ?? BigNum.ZERO).toString();
+  }
+  for (const key of Object.keys(value)) {
+    if (!(key in currencies)) issues.push(`unknown field currencies.${key}`);
+  }
+  return currencies;
+}
+
+/**
+ * Validate research progress: unknown nodes, nodes missing a prerequisite and second picks
+ * from an exclusive group are dropped, as is a running node that could not have started
+ */
+function validateResearch(value: unknown, ctx: SaveSchemaContext, issues: string[]): SavedResearch {
+  const research: SavedResearch = { completed: [], active: null };
+  if (!isRecord(value) || !Array.isArray(value.completed)) {
+    issues.push('research must be an object with completed and active');
+    return research;
+  }
+  const chosenGroups = new Set<string>();
+  const canHave = (id: unknown): boolean => {
+    const node = ctx.research.find(r => r.id === id);
+    return !!node && !research.completed.includes(node.id)
+      && node.requires.every(r => research.completed.includes(r))
+      && !(node.exclusiveGroup && chosenGroups.has(node.exclusiveGroup));
+  };
+  // Prerequisites come first in content order, so walking nodes in that order validates chains
+  for (const node of ctx.research) {
+    if (!value.completed.includes(node.id)) continue;
+    if (!canHave(node.id)) { issues.push(`research.completed contains unavailable research ${JSON.stringify(node.id)}`); continue; }
+    research.completed.push(node.id);
+    if (node.exclusiveGroup) chosenGroups.add(node.exclusiveGroup);
+  }
+  for (const id of value.completed) {
+    if (!ctx.research.some(r => r.id === id)) issues.push(`research.completed contains unknown id ${JSON.stringify(id)}`);
+  }
+
+  const active = value.active;
+  if (isRecord(active)) {
+    const valid = typeof active.startedAt === 'number' && Number.isFinite(active.startedAt)
+      && typeof active.endsAt === 'number' && Number.isFinite(active.endsAt) && canHave(active.id);
+    if (valid) research.active = { id: active.id as string, startedAt: active.startedAt as number, endsAt: active.endsAt as number };
+    else issues.push(`research.active is invalid ${JSON.stringify(active)}`);
+  } else if (active !== null) {
+    issues.push('research.active must be an object or null');
+  }
+  return research;
+}
+
+const TYPING_COUNT_KEYS = ['chars', 'words', 'rejectedChars', 'challengeChars', 'challengeMistakes'] as const;
+
+/** Validate typing analytics; malformed sessions are dropped */
+function validateTyping(value: unknown, issues: string[]): SavedTypingAnalytics {
+  const counts = (record: RawSave): TypingCounts | null => {
+    const result = {} as TypingCounts;
+    for (const key of TYPING_COUNT_KEYS) {
+      const count = record[key];
+      if (typeof count !== 'number' || !Number.isInteger(count) || count < 0) return null;
+      result[key] = count;
+    }
+    return result;
+  };
+  const rate = (v: unknown): v is number => typeof v === 'number' && Number.isFinite(v) && v >= 0;
+
+  const typing: SavedTypingAnalytics = {
+    lifetime: { chars: 0, words: 0, rejectedChars: 0, challengeChars: 0, challengeMistakes: 0 },
+    peakWpm: 0,
+    sessions: [],
+  };
+  if (!isRecord(value) || !isRecord(value.lifetime) || !Array.isArray(value.sessions)) {
+    issues.push('typing must be an object with lifetime, peakWpm and sessions');
+    return typing;
+  }
+  const lifetime = counts(value.lifetime);
+  if (lifetime) typing.lifetime = lifetime;
+  else issues.push(`typing.lifetime must hold non-negative integer ${TYPING_COUNT_KEYS.join(', ')}`);
+  if (rate(value.peakWpm)) typing.peakWpm = value.peakWpm;
+  else issues.push(`typing.peakWpm must be a non-negative number (got ${String(value.peakWpm)})`);
+
+  for (const entry of value.sessions) {
+    const sessionCounts = isRecord(entry) ? counts(entry) : null;
+    const valid = sessionCounts && isRecord(entry) && rate(entry.peakWpm)
+      && typeof entry.startedAt === 'number' && typeof entry.endedAt === 'number'
+      && Number.isFinite(entry.startedAt) && entry.endedAt >= entry.startedAt;
+    if (!valid) { issues.push(`typing.sessions contains invalid session ${JSON.stringify(entry)}`); continue; }
+    typing.sessions.push({ ...sessionCounts, startedAt: entry.startedAt as number, endedAt: entry.endedAt as number, peakWpm: entry.peakWpm as number });
+  }
+  typing.sessions = typing.sessions.slice(-TYPING_CONFIG.sessionHistorySize);
+  return typing;
+}
+
+/**
+ * Migrate and validate raw save data
+ * @param options.repair - accept the repaired save instead of throwing on issues
+ * @throws SaveValidationError when the save is invalid and repair is not requested
+ */
+export function parseSave(raw: unknown, ctx: SaveSchemaContext, options: { repair?: boolean } = {}): SaveData {
+  const { save, issues } = validateSave(migrateSave(raw, ctx.now), ctx);
+  if (issues.length > 0 && !options.repair) throw new SaveValidationError(issues);
+  return save;
+}
@@ -0,0 +1,155 @@
+import { GameEngine } from '../GameEngine';
+import { ManualClock } from '../clock/Clock';
+import type { PlayerStrategy } from './strategies';
+import type { ContentPack } from '../content/contentSchema';
+import type { BigNum } from '../../utils/BigNum';
+import { formatNumberAdaptive } from '../../utils/gameUtils';
+import { PLANNER_CONFIG } from '../../constants/gameConstants';
+
+/**
+ * Headless balance simulator.
+ * Drives a GameEngine on a ManualClock with a player strategy and records
+ * when each producer tier unlocks, when each upgrade first becomes affordable,
+ * and a sampled resource curve, plus how much work the goal planner did.
+ */
+
+export interface SimulationOptions {
+  /** Total simulated time in seconds */
+  durationSeconds: number;
+  /** Seconds between strategy actions (default 1) */
+  stepSeconds?: number;
+  /** Seconds between resource curve samples (default 60) */
+  sampleEverySeconds?: number;
+  /** Content pack to simulate (defaults to the built-in content) */
+  content?: ContentPack;
+  /**
+   * Random incident frequency (default 0: off, since strategies never claim or fix incidents)
+   * and seed (default 1, so runs are reproducible)
+   */
+  incidents?: { seed?: number; frequency?: number };
+}
+
+export interface CurveSample {
+  t: number;
+  resources: BigNum;
+  productionRate: BigNum;
+  runEarnings: BigNum;
+}
+
+/** Goal planner workload over a run, with the limits PLANNER_CONFIG allows */
+export interface PlannerUsage {
+  plans: number;
+  /** At most one replan per staleRefreshMs, plus the plan made when a goal is set */
+  maxPlans: number;
+  /** Most purchases tried while building one plan */
+  largestSearch: number;
+  /** beamWidth sequences × every producer × maxPurchases steps */
+  maxSearch: number;
+}
+
+export interface SimulationResult {
+  strategy: string;
+  durationSeconds: number;
+  /** Seconds until each producer tier unlocked (null = not reached) */
+  tierUnlocks: Record<string, number | null>;
+  /** Seconds until each one-time upgrade was first affordable (null = not reached) */
+  upgradeAffordable: Record<string, number | null>;
+  curve: CurveSample[];
+  planner: PlannerUsage;
+}
+
+export function runSimulation(strategy: PlayerStrategy, options: SimulationOptions): SimulationResult {
+  return simulate(strategy, options).result;
+}
+
+/** Run a strategy and keep the engine, so callers can inspect its final state */
+function simulate(strategy: PlayerStrategy, options: SimulationOptions): { result: SimulationResult; engine: GameEngine } {
+  const stepSeconds = options.stepSeconds ?? 1;
+  const sampleEvery = options.sampleEverySeconds ?? 60;
+  const engine = new GameEngine({
+    clock: new ManualClock(0),
+    content: options.content,
+    incidents: { seed: options.incidents?.seed ?? 1, frequency: options.incidents?.frequency ?? 0 },
+  });
+  const upgrades = engine.getUpgrades();
+
+  const tierUnlocks: Record<string, number | null> = {};
+  for (const p of engine.producers) {
+    if (p.id !== 'codingSession') tierUnlocks[p.id] = null;
+  }
+  const upgradeAffordable: Record<string, number | null> = {};
+  for (const u of upgrades) upgradeAffordable[u.id] = null;
+  const curve: CurveSample[] = [];
+
+  const record = (t: number) => {
+    const state = engine.getState();
+    for (const p of state.producers) {
+      if (p.id in tierUnlocks && tierUnlocks[p.id] === null && p.unlocked) tierUnlocks[p.id] = t;
+    }
+    for (const u of upgrades) {
+      if (upgradeAffordable[u.id] === null && state.resources.gte(u.cost)) upgradeAffordable[u.id] = t;
+    }
+  };
+
+  let nextSample = 0;
+  for (let t = 0; t <= options.durationSeconds; t += stepSeconds) {
+    record(t);
+    if (t >= nextSample) {
+      curve.push({ t, resources: engine.resources, productionRate: engine.productionRate, runEarnings: engine.runEarnings });
+      nextSample += sampleEvery;
+    }
+    strategy.act(engine, stepSeconds);
+    engine.advance(stepSeconds * 1000);
+  }
+
+  const { plans, largestSearch } = engine.getPlannerStats();
+  const planner: PlannerUsage = {
+    plans,
+    maxPlans: Math.floor(options.durationSeconds * 1000 / PLANNER_CONFIG.staleRefreshMs) + 1,
+    largestSearch,
+    maxSearch: PLANNER_CONFIG.beamWidth * engine.producers.length * PLANNER_CONFIG.maxPurchases,
+  };
+
+  return { result: { strategy: strategy.name, durationSeconds: options.durationSeconds, tierUnlocks, upgradeAffordable, curve, planner }, engine };
+}
+
+/**
+ * Run a strategy twice with the same options and describe where the runs differ (empty if they match)
+ * Every timer reads the ManualClock and incidents use a seeded random, so identical runs must end in identical saves.
+ */
+export function findNondeterminism(strategy: PlayerStrategy, options: SimulationOptions): string[] {
+  const [a, b] = [simulate(strategy, options), simulate(strategy, options)];
+  const issues: string[] = [];
+  if (JSON.stringify(a.result) !== JSON.stringify(b.result)) issues.push(`${strategy.name}: milestones or resource curve differ`);
+  if (JSON.stringify(a.engine.save()) !== JSON.stringify(b.engine.save())) issues.push(`${strategy.name}: final saves differ`);
+  return issues;
+}
+
+/** Runs whose planner did more work than PLANNER_CONFIG allows, described for an error report */
+export function findPlannerOverruns(results: SimulationResult[]): string[] {
+  return results.flatMap(({ strategy, planner: p }) => [
+    ...(p.plans > p.maxPlans ? [`${strategy}: ${p.plans} plans (limit ${p.maxPlans})`] : []),
+    ...(p.largestSearch > p.maxSearch ? [`${strategy}: ${p.largestSearch} purchases tried in one plan (limit ${p.maxSearch})`] : []),
+  ]);
+}
+
+/** Milestone rows (one per strategy × milestone) as CSV */
+export function milestonesToCsv(results: SimulationResult[]): string {
+  const rows = ['strategy,kind,id,seconds'];
+  for (const r of results) {
+    for (const [id, t] of Object.entries(r.tierUnlocks)) rows.push(`${r.strategy},tierUnlock,${id},${t ?? ''}`);
+    for (const [id, t] of Object.entries(r.upgradeAffordable)) rows.push(`${r.strategy},upgradeAffordable,${id},${t ?? ''}`);
+  }
+  return rows.join('\n') + '\n';
+}
+
+/** Resource curve rows (one per strategy × sample) as CSV; large amounts use scientific notation */
+const csvAmount = (n: BigNum) => formatNumberAdaptive(n, 2, 6);
+
+export function curveToCsv(results: SimulationResult[]): string {
+  const rows = ['strategy,t,resources,productionRate,runEarnings'];
+  for (const r of results) {
+    for (const s of r.curve) rows.push(`${r.strategy},${s.t},${csvAmount(s.resources)},${s.productionRate},${csvAmount(s.runEarnings)}`);
+  }
+  return rows.join('\n') + '\n';
+}
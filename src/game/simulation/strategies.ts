@@ -0,0 +1,126 @@
+import { UPGRADE_IDS } from '../../constants/gameConstants';
+import type { GameEngine } from '../GameEngine';
+import type { BigNum } from '../../utils/BigNum';
+
+/**
+ * Player strategies for the headless balance simulator.
+ * A strategy acts once per simulated step, before the engine advances.
+ */
+export interface PlayerStrategy {
+  /** Identifier used on the command line and in reports */
+  name: string;
+  /** Short explanation for reports */
+  description: string;
+  /** Perform the player's actions for one step of stepSeconds */
+  act(engine: GameEngine, stepSeconds: number): void;
+}
+
+/** Clicks needed per step to reach the given clicks-per-second rate */
+function clickFor(engine: GameEngine, clicksPerSecond: number, stepSeconds: number): void {
+  const clicks = Math.round(clicksPerSecond * stepSeconds);
+  for (let i = 0; i < clicks; i++) engine.click();
+}
+
+/** Buy the cheapest affordable resource producer (one per call) */
+function buyCheapest(engine: GameEngine): boolean {
+  const affordable = engine.producers
+    .filter(p => p.id !== 'codingSession' && p.produces === 'resources' && engine.canAffordProducer(p.id))
+    .sort((a, b) => engine.getProducerCost(a.id).cmp(engine.getProducerCost(b.id)));
+  return affordable.length > 0 && engine.purchaseProducer(affordable[0].id);
+}
+
+/** Buy the affordable resource producer with the lowest cost per unit of production */
+function buyBestValue(engine: GameEngine): boolean {
+  let bestId: string | undefined;
+  let bestRatio: BigNum | undefined;
+  for (const p of engine.producers) {
+    if (p.id === 'codingSession' || p.produces !== 'resources' || !engine.canAffordProducer(p.id)) continue;
+    const ratio = engine.getProducerCost(p.id).div(p.productionRate);
+    if (!bestRatio || ratio.lt(bestRatio)) { bestRatio = ratio; bestId = p.id; }
+  }
+  return bestId !== undefined && engine.purchaseProducer(bestId);
+}
+
+/**
+ * Idle: clicks only until the first producer is owned, then just buys
+ * the cheapest producer whenever one is affordable.
+ */
+export const idleStrategy: PlayerStrategy = {
+  name: 'idle',
+  description: 'Clicks only to bootstrap, then buys the cheapest producer',
+  act(engine, stepSeconds) {
+    if (engine.productionRate.isZero()) clickFor(engine, 2, stepSeconds);
+    while (buyCheapest(engine)) { /* keep buying */ }
+  },
+};
+
+/**
+ * Click-heavy: sustained fast clicking, prioritising Click Power upgrades
+ * and spending the rest on best-value producers.
+ */
+export const clickHeavyStrategy: PlayerStrategy = {
+  name: 'click-heavy',
+  description: 'Clicks 8 times per second, buys Click Power and best-value producers',
+  act(engine, stepSeconds) {
+    clickFor(engine, 8, stepSeconds);
+    while (engine.purchaseClickPowerUpgrade()) { /* keep buying */ }
+    while (buyBestValue(engine)) { /* keep buying */ }
+  },
+};
+
+/**
+ * Auto-buy: clicks moderately while saving for the Auto-Buy upgrade,
+ * then lets the auto-buyer spend and only buys speed upgrades.
+ */
+export const autoBuyStrategy: PlayerStrategy = {
+  name: 'auto-buy',
+  description: 'Saves for Auto-Buy, then relies on it and buys speed upgrades',
+  act(engine, stepSeconds) {
+    clickFor(engine, 3, stepSeconds);
+    const hasAutoBuy = engine.getUpgrades().some(u => u.id === UPGRADE_IDS.AUTO_BUY && u.purchased);
+    if (!hasAutoBuy) {
+      if (engine.productionRate.isZero()) buyCheapest(engine);
+      engine.purchaseUpgrade(UPGRADE_IDS.AUTO_BUY);
+      return;
+    }
+    if (!engine.autoBuyEnabled) engine.toggleAutoBuy();
+    engine.purchaseAutoBuySpeedUpgrade();
+  },
+};
+
+/**
+ * Greedy best-value: clicks moderately and always spends everything,
+ * buying one-time upgrades first and then best-value producers.
+ */
+export const greedyStrategy: PlayerStrategy = {
+  name: 'greedy',
+  description: 'Clicks 3 times per second, buys every upgrade and best-value producer',
+  act(engine, stepSeconds) {
+    clickFor(engine, 3, stepSeconds);
+    for (const upgrade of engine.getUpgrades()) {
+      if (upgrade.canAfford) engine.purchaseUpgrade(upgrade.id);
+    }
+    for (const upgrade of engine.getProducerUpgrades()) {
+      if (upgrade.canAfford) engine.purchaseProducerUpgrade(upgrade.id);
+    }
+    while (buyBestValue(engine)) { /* keep buying */ }
+  },
+};
+
+/**
+ * Goal: like auto-buy, but once Auto-Buy is owned it sets a goal of unlocking the last
+ * producer tier and lets auto-buy follow the plan (exercises the goal planner).
+ */
+export const goalStrategy: PlayerStrategy = {
+  name: 'goal',
+  description: 'Saves for Auto-Buy, then follows a plan to unlock the last producer tier',
+  act(engine, stepSeconds) {
+    autoBuyStrategy.act(engine, stepSeconds);
+    const hasAutoBuy = engine.getUpgrades().some(u => u.id === UPGRADE_IDS.AUTO_BUY && u.purchased);
+    const last = engine.producers.at(-1);
+    // setGoal() refuses once the tier is unlocked, so this stops asking after the goal is reached
+    if (hasAutoBuy && last && !engine.getState().goal) engine.setGoal({ type: 'unlock', producerId: last.id }, { follow: true });
+  },
+};
+
+export const STRATEGIES: PlayerStrategy[] = [idleStrategy, clickHeavyStrategy, autoBuyStrategy, greedyStrategy, goalStrategy];
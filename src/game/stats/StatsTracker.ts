@@ -0,0 +1,107 @@
+import type { SavedStats } from '../../types/game.types';
+import { BigNum } from '../../utils/BigNum';
+import type { BigNumSource } from '../../utils/BigNum';
+
+/** Earning sources other than producers ("click" includes the A+T cheat) */
+export const EARNING_SOURCES = ['click', 'typing', 'words', 'challenges', 'incidents', 'offline'] as const;
+
+export type EarningSource = typeof EARNING_SOURCES[number];
+
+/**
+ * Lifetime statistics. Survives Ship to Production; cleared only by a hard reset.
+ * Earnings are split by source, with online producer output attributed per producer.
+ */
+export class StatsTracker {
+  private lifetimeEarned = BigNum.ZERO;
+  private earnedBySource: Record<string, BigNum> = {};
+  private earnedByProducer: Record<string, BigNum> = {};
+  private totalClicks = 0;
+  private playTimeSeconds = 0;
+  private sessionCount = 0;
+  private peakProductionRate = BigNum.ZERO;
+
+  recordEarning(amount: BigNumSource, source: EarningSource): void {
+    const value = BigNum.from(amount);
+    this.lifetimeEarned = this.lifetimeEarned.add(value);
+    this.earnedBySource[source] = (this.earnedBySource[source] ?? BigNum.ZERO).add(value);
+  }
+
+  /**
+   * Record producer output, split between producers in proportion to their share of production
+   * @param shares - Relative output per producer id (any scale)
+   */
+  recordProduction(total: BigNum, shares: Record<string, number>): void {
+    this.lifetimeEarned = this.lifetimeEarned.add(total);
+    const sum = Object.values(shares).reduce((a, b) => a + b, 0);
+    if (sum <= 0) return;
+    for (const [id, share] of Object.entries(shares)) {
+      if (share <= 0) continue;
+      this.earnedByProducer[id] = (this.earnedByProducer[id] ?? BigNum.ZERO).add(total.mul(share / sum));
+    }
+  }
+
+  recordClick(): void {
+    this.totalClicks++;
+  }
+
+  addPlayTime(seconds: number): void {
+    this.playTimeSeconds += seconds;
+  }
+
+  beginSession(): void {
+    this.sessionCount++;
+  }
+
+  recordProductionRate(rate: BigNum): void {
+    if (rate.gt(this.peakProductionRate)) this.peakProductionRate = rate;
+  }
+
+  getUIState() {
+    return {
+      lifetimeEarned: this.lifetimeEarned,
+      earnedBySource: EARNING_SOURCES.map(source => ({ source, amount: this.earnedBySource[source] ?? BigNum.ZERO })),
+      earnedByProducer: { ...this.earnedByProducer },
+      totalClicks: this.totalClicks,
+      playTimeSeconds: this.playTimeSeconds,
+      sessionCount: this.sessionCount,
+      peakProductionRate: this.peakProductionRate,
+    };
+  }
+
+  save(): SavedStats {
+    const serialize = (record: Record<string, BigNum>) =>
+      Object.fromEntries(Object.entries(record).map(([key, value]) => [key, value.toString()]));
+    return {
+      lifetimeEarned: this.lifetimeEarned.toString(),
+      earnedBySource: serialize(this.earnedBySource),
+      earnedByProducer: serialize(this.earnedByProducer),
+      totalClicks: this.totalClicks,
+      playTimeSeconds: this.playTimeSeconds,
+      sessionCount: this.sessionCount,
+      peakProductionRate: this.peakProductionRate.toString(),
+    };
+  }
+
+  /** Restore from validated save data */
+  load(data: SavedStats): void {
+    const parse = (record: Record<string, string>) =>
+      Object.fromEntries(Object.entries(record).map(([key, value]) => [key, BigNum.from(value)]));
+    this.lifetimeEarned = BigNum.from(data.lifetimeEarned);
+    this.earnedBySource = parse(data.earnedBySource);
+    this.earnedByProducer = parse(data.earnedByProducer);
+    this.totalClicks = data.totalClicks;
+    this.playTimeSeconds = data.playTimeSeconds;
+    this.sessionCount = data.sessionCount;
+    this.peakProductionRate = BigNum.from(data.peakProductionRate);
+  }
+
+  reset(): void {
+    this.lifetimeEarned = BigNum.ZERO;
+    this.earnedBySource = {};
+    this.earnedByProducer = {};
+    this.totalClicks = 0;
+    this.playTimeSeconds = 0;
+    this.sessionCount = 0;
+    this.peakProductionRate = BigNum.ZERO;
+  }
+}
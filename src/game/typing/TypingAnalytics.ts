@@ -0,0 +1,139 @@
+import { TYPING_CONFIG } from '../../constants/gameConstants';
+import type { SavedTypingAnalytics, SavedTypingSession, TypingCounts } from '../../types/game.types';
+
+/** Characters per word in WPM figures (the usual typing-test convention) */
+const CHARS_PER_WORD = 5;
+
+const emptyCounts = (): TypingCounts => ({ chars: 0, words: 0, rejectedChars: 0, challengeChars: 0, challengeMistakes: 0 });
+
+/** Share of challenge characters typed correctly, or null before any challenge typing */
+export function getAccuracy(counts: TypingCounts): number | null {
+  const total = counts.challengeChars + counts.challengeMistakes;
+  return total > 0 ? counts.challengeChars / total : null;
+}
+
+/**
+ * Typing metrics: rolling WPM over the last TYPING_CONFIG.wpmWindowSeconds, typing sessions
+ * (split by pauses longer than sessionIdleSeconds) with their peak WPM, challenge accuracy and
+ * characters rejected by the same-character rule. Rejected characters do not count towards WPM.
+ * Lifetime figures and recent sessions are saved; a hard reset clears them.
+ */
+export class TypingAnalytics {
+  /** Timestamps of the counted characters inside the WPM window */
+  private recentChars: number[] = [];
+  private current: SavedTypingSession | null = null;
+  private sessions: SavedTypingSession[] = [];
+  private lifetime = emptyCounts();
+  private peakWpm = 0;
+  /** When the rolling WPM last reached TYPING_CONFIG.flowWpm (null while below it) */
+  private flowSince: number | null = null;
+
+  /** Count a typed character; `rejected` characters earned nothing under the same-character rule */
+  recordChar(now: number, rejected: boolean): void {
+    const session = this.touch(now);
+    session.chars++;
+    this.lifetime.chars++;
+    if (rejected) {
+      session.rejectedChars++;
+      this.lifetime.rejectedChars++;
+      return;
+    }
+    this.recentChars.push(now);
+    const wpm = this.getWpm(now);
+    session.peakWpm = Math.max(session.peakWpm, wpm);
+    this.peakWpm = Math.max(this.peakWpm, wpm);
+  }
+
+  recordWord(now: number): void {
+    this.touch(now).words++;
+    this.lifetime.words++;
+  }
+
+  /** Count a challenge character: correct, or the mistake that failed the challenge */
+  recordChallengeChar(now: number, correct: boolean): void {
+    const key = correct ? 'challengeChars' : 'challengeMistakes';
+    this.touch(now)[key]++;
+    this.lifetime[key]++;
+  }
+
+  /** The running session (starting one if the last has gone idle) */
+  private touch(now: number): SavedTypingSession {
+    this.endIdleSession(now);
+    this.current ??= { ...emptyCounts(), startedAt: now, endedAt: now, peakWpm: 0 };
+    this.current.endedAt = now;
+    return this.current;
+  }
+
+  private endIdleSession(now: number): void {
+    if (!this.current || now - this.current.endedAt <= TYPING_CONFIG.sessionIdleSeconds * 1000) return;
+    this.sessions = [...this.sessions, this.current].slice(-TYPING_CONFIG.sessionHistorySize);
+    this.current = null;
+  }
+
+  /** Close idle sessions and track how long the WPM has stayed at flow speed */
+  update(now: number): void {
+    this.endIdleSession(now);
+    if (this.getWpm(now) >= TYPING_CONFIG.flowWpm) this.flowSince ??= now;
+    else this.flowSince = null;
+  }
+
+  /** Rolling words per minute over the last wpmWindowSeconds */
+  getWpm(now: number): number {
+    const windowMs = TYPING_CONFIG.wpmWindowSeconds * 1000;
+    const firstInWindow = this.recentChars.findIndex(t => now - t < windowMs);
+    this.recentChars = firstInWindow === -1 ? [] : this.recentChars.slice(firstInWindow);
+    return (this.recentChars.length / CHARS_PER_WORD) * (60 / TYPING_CONFIG.wpmWindowSeconds);
+  }
+
+  /** Whether WPM has stayed at TYPING_CONFIG.flowWpm for flowSeconds (the flow bonus applies) */
+  isInFlow(now: number): boolean {
+    return this.flowSince !== null && now - this.flowSince >= TYPING_CONFIG.flowSeconds * 1000
+      && this.getWpm(now) >= TYPING_CONFIG.flowWpm;
+  }
+
+  getUIState(now: number) {
+    const summarize = (s: SavedTypingSession) => {
+      const minutes = (s.endedAt - s.startedAt) / 60000;
+      return {
+        ...s,
+        averageWpm: minutes > 0 ? (s.chars - s.rejectedChars) / CHARS_PER_WORD / minutes : 0,
+        accuracy: getAccuracy(s),
+      };
+    };
+    const current = this.current && now - this.current.endedAt <= TYPING_CONFIG.sessionIdleSeconds * 1000 ? this.current : null;
+    return {
+      wpm: this.getWpm(now),
+      inFlow: this.isInFlow(now),
+      session: current ? summarize(current) : null,
+      recentSessions: this.sessions.map(summarize).reverse(),
+      lifetime: { ...this.lifetime, peakWpm: this.peakWpm, accuracy: getAccuracy(this.lifetime) },
+    };
+  }
+
+  reset(): void {
+    this.recentChars = [];
+    this.current = null;
+    this.sessions = [];
+    this.lifetime = emptyCounts();
+    this.peakWpm = 0;
+    this.flowSince = null;
+  }
+
+  /** Lifetime figures and recent sessions; a running session is saved as finished */
+  save(): SavedTypingAnalytics {
+    const sessions = this.current ? [...this.sessions, this.current] : this.sessions;
+    return {
+      lifetime: { ...this.lifetime },
+      peakWpm: this.peakWpm,
+      sessions: sessions.slice(-TYPING_CONFIG.sessionHistorySize).map(s => ({ ...s })),
+    };
+  }
+
+  /** Restore validated analytics */
+  load(data: SavedTypingAnalytics): void {
+    this.reset();
+    this.lifetime = { ...data.lifetime };
+    this.peakWpm = data.peakWpm;
+    this.sessions = data.sessions.map(s => ({ ...s }));
+  }
+}
@@ -1,5 +1,15 @@
 import { TYPING_CONFIG, WORD_BOUNDARIES } from '../../constants/gameConstants';
-import { pickRandomChallenge } from '../../constants/challenges';
+import { systemClock } from '../clock/Clock';
+import type { Clock } from '../clock/Clock';
+import type { MiniChallengeDef } from '../content/contentSchema';
+import { EventBus } from '../events/EventBus';
+import type { GameEvents } from '../events/gameEvents';
+import type { EarningSource } from '../stats/StatsTracker';
+import type { SavedTypingAnalytics } from '../../types/game.types';
+import { TypingAnalytics } from './TypingAnalytics';
+
+/** Credits a typing reward to the engine, tagged with what earned it */
+type AddResources = (value: number, source: Extract<EarningSource, 'typing' | 'words' | 'challenges'>) => void;
 
 export interface ActiveChallenge {
   id: string;
@@ -26,25 +36,49 @@ export class TypingEngine {
   private completedChallenges = 0;
   private failedChallenges = 0;
   private challengesEnabled = true;
+  private readonly analytics = new TypingAnalytics();
+  private readonly clock: Clock;
+  private readonly challenges: MiniChallengeDef[];
+  private readonly events: EventBus<GameEvents>;
+
+  constructor(clock: Clock = systemClock, challenges: MiniChallengeDef[] = [], events = new EventBus<GameEvents>()) {
+    this.clock = clock;
+    this.challenges = challenges;
+    this.events = events;
+  }
+
+  /** Fail an active challenge whose time limit has passed and refresh typing metrics */
+  update(): void {
+    if (this.challenge && this.isChallengeExpired(this.challenge)) this.failChallenge('timeout');
+    this.analytics.update(this.clock.now());
+  }
+
+  private isChallengeExpired(c: ActiveChallenge): boolean {
+    return this.clock.now() - c.startTime > c.timeLimitMs;
+  }
 
-  handleChar(char: string, addResources: (value: number) => void): void {
+  handleChar(char: string, addResources: AddResources): void {
+    const now = this.clock.now();
     // Handle active challenge
     if (this.challenge) {
       const c = this.challenge;
-      if (Date.now() - c.startTime > c.timeLimitMs) {
-        this.failChallenge();
+      if (this.isChallengeExpired(c)) {
+        this.failChallenge('timeout');
       } else {
         if (!c.startedOnNewLine) {
           if (char === '\n') { c.startedOnNewLine = true; return; }
         } else {
           const expectedChar = c.snippet[c.progress];
           if (char === '\n') {
-            this.failChallenge();
+            this.analytics.recordChallengeChar(now, false);
+            this.failChallenge('mistake');
           } else if (char === expectedChar) {
             c.progress++;
+            this.analytics.recordChallengeChar(now, true);
             if (c.progress >= c.snippet.length) this.completeChallenge(addResources);
           } else {
-            this.failChallenge();
+            this.analytics.recordChallengeChar(now, false);
+            this.failChallenge('mistake');
           }
         }
       }
@@ -53,21 +87,23 @@ export class TypingEngine {
     // Streak prevention
     if (this.lastTypedChar === char) this.consecutiveSameCharCount++; else { this.lastTypedChar = char; this.consecutiveSameCharCount = 1; }
 
-    if (this.consecutiveSameCharCount >= 3) {
+    const rejected = this.consecutiveSameCharCount >= 3;
+    this.analytics.recordChar(now, rejected);
+    if (rejected) {
       if (!WORD_BOUNDARIES.has(char)) this.stats.currentWordLength++; else this.handleWordBoundary(addResources);
       return;
     }
 
     // Reward
     if (!WORD_BOUNDARIES.has(char)) {
-      addResources(TYPING_CONFIG.baseCharValue * this.getCurrentStreakMultiplier());
+      addResources(TYPING_CONFIG.baseCharValue * this.getCurrentStreakMultiplier(), 'typing');
       this.stats.currentWordLength++;
     } else {
       this.handleWordBoundary(addResources);
     }
   }
 
-  private handleWordBoundary(addResources: (value: number) => void): void {
+  private handleWordBoundary(addResources: AddResources): void {
     if (this.stats.currentWordLength > 0) this.completeWord(addResources);
     this.stats.currentWordLength = 0;
 
@@ -77,51 +113,59 @@ export class TypingEngine {
     }
   }
 
-  private completeWord(addResources: (value: number) => void): void {
+  private completeWord(addResources: AddResources): void {
     this.stats.wordsTyped++;
     this.stats.streakWords++;
     const streakMultiplier = this.getCurrentStreakMultiplier();
     const baseWordValue = this.stats.currentWordLength * TYPING_CONFIG.baseCharValue;
     const reward = baseWordValue * TYPING_CONFIG.wordBonusMultiplier * streakMultiplier;
-    addResources(reward);
+    addResources(reward, 'words');
+    this.analytics.recordWord(this.clock.now());
+    this.events.emit('wordCompleted', { length: this.stats.currentWordLength, reward, streakWords: this.stats.streakWords });
   }
 
   private startChallenge(): void {
-    const def = pickRandomChallenge();
+    if (this.challenges.length === 0) return;
+    const def = this.challenges[Math.floor(Math.random() * this.challenges.length)];
     this.challenge = {
       id: def.id,
       snippet: def.snippet,
       description: def.description,
       timeLimitMs: def.timeLimitSeconds * 1000,
-      startTime: Date.now(),
+      startTime: this.clock.now(),
       progress: 0,
       startedOnNewLine: false,
     };
     this.lastChallengeWords = this.stats.wordsTyped;
+    this.events.emit('challengeStarted', { challengeId: def.id, snippet: def.snippet, timeLimitMs: this.challenge.timeLimitMs });
   }
 
   public triggerChallenge(): boolean {
-    if (this.challenge) return false;
+    if (this.challenge || this.challenges.length === 0) return false;
     this.startChallenge();
     return true;
   }
 
-  private completeChallenge(addResources: (value: number) => void): void {
+  private completeChallenge(addResources: AddResources): void {
     if (!this.challenge) return;
+    const { id, startTime } = this.challenge;
     const length = this.challenge.snippet.length;
     const streakMultiplier = this.getCurrentStreakMultiplier();
     const reward = length * TYPING_CONFIG.baseCharValue * TYPING_CONFIG.challengeRewardMultiplier * streakMultiplier;
-    addResources(reward);
+    addResources(reward, 'challenges');
     this.completedChallenges++;
     this.stats.streakWords += 1; // small streak boost
     this.challenge = null;
+    this.events.emit('challengeCompleted', { challengeId: id, reward, elapsedMs: this.clock.now() - startTime });
   }
 
-  private failChallenge(): void {
+  private failChallenge(reason: GameEvents['challengeFailed']['reason']): void {
     if (!this.challenge) return;
+    const challengeId = this.challenge.id;
     this.failedChallenges++;
     this.stats.streakWords = 0;
     this.challenge = null;
+    this.events.emit('challengeFailed', { challengeId, reason });
   }
 
   getCurrentStreakMultiplier(): number {
@@ -129,6 +173,20 @@ export class TypingEngine {
     return Math.min(TYPING_CONFIG.maxStreakMultiplier, multiplier);
   }
 
+  /** Lifetime typing counters used by achievements (saved, so progress survives reloads) */
+  getProgressStats(): { wordsTyped: number; completedChallenges: number } {
+    return { wordsTyped: this.stats.wordsTyped, completedChallenges: this.completedChallenges };
+  }
+
+  /** Restore saved lifetime counters; the next challenge is a full interval away */
+  loadProgress(data: { wordsTyped?: number; completedChallenges?: number }): void {
+    if (data.wordsTyped !== undefined) {
+      this.stats.wordsTyped = data.wordsTyped;
+      this.lastChallengeWords = data.wordsTyped;
+    }
+    if (data.completedChallenges !== undefined) this.completedChallenges = data.completedChallenges;
+  }
+
   getUIState() {
     return {
       wordsTyped: this.stats.wordsTyped,
@@ -140,16 +198,35 @@ export class TypingEngine {
         description: this.challenge.description,
         progress: this.challenge.progress,
         total: this.challenge.snippet.length,
-        timeRemaining: Math.max(0, Math.ceil((this.challenge.timeLimitMs - (Date.now() - this.challenge.startTime)) / 1000)),
+        timeRemaining: Math.max(0, Math.ceil((this.challenge.timeLimitMs - (this.clock.now() - this.challenge.startTime)) / 1000)),
         startedOnNewLine: this.challenge.startedOnNewLine,
       } : null,
       nextChallengeInWords: this.challenge ? 0 : Math.max(0, TYPING_CONFIG.wordsPerChallenge - (this.stats.wordsTyped - this.lastChallengeWords)),
       completedChallenges: this.completedChallenges,
       failedChallenges: this.failedChallenges,
       challengesEnabled: this.challengesEnabled,
+      typingMetrics: this.analytics.getUIState(this.clock.now()),
     };
   }
 
+  /** Whether sustained typing speed earns the flow production bonus right now */
+  isInFlow(): boolean {
+    return this.analytics.isInFlow(this.clock.now());
+  }
+
+  saveAnalytics(): SavedTypingAnalytics {
+    return this.analytics.save();
+  }
+
+  loadAnalytics(data: SavedTypingAnalytics): void {
+    this.analytics.load(data);
+  }
+
+  /** Forget all typing metrics (hard reset) */
+  resetAnalytics(): void {
+    this.analytics.reset();
+  }
+
   setChallengesEnabled(enabled: boolean) { this.challengesEnabled = enabled; }
 }
 
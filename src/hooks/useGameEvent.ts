@@ -0,0 +1,23 @@
+/**
+ * Custom hook to react to game engine events
+ */
+
+import { useEffect, useRef } from 'react';
+import { useGame } from './useGame';
+import type { GameEvents } from '../game/events/gameEvents';
+
+/**
+ * Call `listener` whenever the engine emits `type`
+ * The latest listener is always used, so it may close over fresh props and state
+ * without resubscribing on every render.
+ */
+export const useGameEvent = <K extends keyof GameEvents>(type: K, listener: (payload: GameEvents[K]) => void): void => {
+  const { onGameEvent } = useGame();
+  const listenerRef = useRef(listener);
+
+  useEffect(() => {
+    listenerRef.current = listener;
+  });
+
+  useEffect(() => onGameEvent(type, payload => listenerRef.current(payload)), [onGameEvent, type]);
+};
@@ -2,6 +2,9 @@
  * Type definitions for the Incremental Clicker Game
  */
 
+import type { AutoBuyStrategyId } from '../game/autobuy/autoBuyStrategies';
+import type { SecondaryCurrencyId } from '../game/currencies/Wallet';
+
 /**
  * Core upgrade tier configuration and state
  */
@@ -45,18 +48,177 @@ export interface GameState {
 }
 
 /**
- * Serializable save data structure
+ * Saved state of a single producer
  */
-export interface SaveData {
-  /** Saved resource count */
-  resources: number;
-  /** Saved upgrade quantities */
-  upgrades: Array<{
+export interface SavedProducer {
+  /** Producer id (must match a known producer) */
+  id: string;
+  /** Number owned */
+  quantity: number;
+  /** Total resources spent on this producer (serialized BigNum) */
+  totalSpent: string;
+}
+
+/**
+ * Saved lifetime statistics (amounts are serialized BigNums)
+ */
+export interface SavedStats {
+  /** Total resources ever earned (not reset by Ship to Production) */
+  lifetimeEarned: string;
+  /** Earnings per non-producer source: click, typing, words, challenges, offline */
+  earnedBySource: Record<string, string>;
+  /** Online production per producer id */
+  earnedByProducer: Record<string, string>;
+  totalClicks: number;
+  /** Seconds the game was open and running (offline time excluded) */
+  playTimeSeconds: number;
+  /** Number of times the game was started or a slot was loaded */
+  sessionCount: number;
+  /** Highest production rate reached */
+  peakProductionRate: string;
+}
+
+/**
+ * Saved production history (see ProductionHistory)
+ */
+export interface SavedHistory {
+  /** Persisted tiers by id; samples are [seconds after start, resources, production rate] */
+  tiers: Partial<Record<string, { start: number; samples: Array<[number, string, string]> }>>;
+  /** Chart markers as [timestamp, kind, producer or upgrade id] */
+  markers: Array<[number, 'unlock' | 'upgrade' | 'release', string]>;
+}
+
+/**
+ * Saved random incident state (see IncidentManager)
+ */
+export interface SavedIncidents {
+  /** SeededRandom state, so reloading continues the same random sequence */
+  rngState: number;
+  /** Timestamp the next incident is due (null when incidents are disabled) */
+  nextAt: number | null;
+  active: Array<{
     id: string;
-    quantity: number;
+    startedAt: number;
+    endsAt: number;
+    producerId?: string;
+    fixCommand?: string;
+    fixProgress?: number;
   }>;
+}
+
+/**
+ * Saved auto-buy configuration (see AutoBuyer)
+ */
+export interface SavedAutoBuySettings {
+  strategy: AutoBuyStrategyId;
+  /** Per-producer rules keyed by producer id; producers without an entry use the defaults */
+  rules: Record<string, { enabled: boolean; maxOwned: number | null; reserve: string }>;
+  /** Last producer bought, where round-robin continues */
+  lastPurchasedId: string | null;
+  /** Upgrade, producer upgrade and repeatable upgrade ids the Upgrade Bot may buy */
+  upgrades: string[];
+}
+
+/**
+ * Typing counters for one typing session or for a lifetime
+ */
+export interface TypingCounts {
+  /** Characters typed, including rejected ones */
+  chars: number;
+  words: number;
+  /** Characters that earned nothing under the same-character rule */
+  rejectedChars: number;
+  /** Correct characters typed during challenges */
+  challengeChars: number;
+  /** Wrong characters that failed a challenge */
+  challengeMistakes: number;
+}
+
+/**
+ * A finished typing session (typing with no pause longer than TYPING_CONFIG.sessionIdleSeconds)
+ */
+export interface SavedTypingSession extends TypingCounts {
+  startedAt: number;
+  endedAt: number;
+  peakWpm: number;
+}
+
+/**
+ * Saved typing analytics (see TypingAnalytics)
+ */
+export interface SavedTypingAnalytics {
+  lifetime: TypingCounts;
+  peakWpm: number;
+  /** Most recent sessions, oldest first */
+  sessions: SavedTypingSession[];
+}
+
+/**
+ * Saved research tree progress (see ResearchManager)
+ */
+export interface SavedResearch {
+  /** Finished research ids */
+  completed: string[];
+  /** Research in progress and the timestamps it runs between */
+  active: { id: string; startedAt: number; endsAt: number } | null;
+}
+
+/**
+ * Saved balances of the secondary currencies (serialized BigNums)
+ */
+export type SavedCurrencies = Record<SecondaryCurrencyId, string>;
+
+/**
+ * Serializable save data structure (current schema version).
+ * Older saves are upgraded by the migration pipeline in `src/game/save/saveSchema.ts`.
+ */
+export interface SaveData {
+  /** Schema version, see SAVE_VERSION */
+  version: number;
+  /** Saved resource count (serialized BigNum, e.g. "1.5e320") */
+  resources: string;
+  /** Saved producer quantities */
+  producers: SavedProducer[];
   /** Timestamp of last save */
   lastUpdate: number;
+  /** Whether auto-buy was switched on */
+  autoBuyEnabled: boolean;
+  /** Auto-buy speed upgrade level */
+  autoBuySpeedLevel: number;
+  /** Ids of producers revealed to the player */
+  unlockedProducers: string[];
+  /** Ids of purchased one-time upgrades */
+  purchasedUpgrades: string[];
+  /** Click power upgrade level */
+  clickPowerLevel: number;
+  /** Whether challenges auto-trigger */
+  challengesEnabled: boolean;
+  /** Resources earned since the last Ship to Production (serialized BigNum) */
+  runEarnings: string;
+  /** Persistent prestige currency */
+  releasePoints: number;
+  /** Number of Ship to Production resets performed */
+  totalReleases: number;
+  /** Ids of unlocked achievements */
+  unlockedAchievements: string[];
+  /** Lifetime words typed (achievement progress) */
+  wordsTyped: number;
+  /** Lifetime challenges completed (achievement progress) */
+  completedChallenges: number;
+  /** Lifetime statistics */
+  stats: SavedStats;
+  /** Downsampled resource and production history */
+  history: SavedHistory;
+  /** Random incident schedule and active effects */
+  incidents: SavedIncidents;
+  /** Auto-buy strategy, per-producer rules and Upgrade Bot opt-ins */
+  autoBuySettings: SavedAutoBuySettings;
+  /** Commits, Coffee and Tech Debt held in the current run */
+  currencies: SavedCurrencies;
+  /** Finished and running research */
+  research: SavedResearch;
+  /** Lifetime typing metrics and recent typing sessions */
+  typing: SavedTypingAnalytics;
 }
 
 /**
@@ -0,0 +1,234 @@
+/**
+ * Arbitrary-magnitude number stored as mantissa × 10^exponent.
+ *
+ * Instances are immutable and normalized so that 1 <= |mantissa| < 10 (or mantissa = 0).
+ * While a value fits in a double, arithmetic runs on the native number so results match
+ * plain JS math exactly; past ~1e308 it continues on mantissa/exponent instead of
+ * overflowing to Infinity.
+ */
+
+/** Anything that can be turned into a BigNum */
+export type BigNumSource = BigNum | number | string;
+
+/** Beyond this exponent gap the smaller addend cannot affect the larger one */
+const MAX_SIGNIFICANT_DIGITS = 17;
+
+/** Largest exponent still handled as a native double */
+const NATIVE_EXPONENT_LIMIT = 308;
+
+export class BigNum {
+  readonly mantissa: number;
+  readonly exponent: number;
+  /** Native value when representable as a finite double, otherwise ±Infinity (or 0 on underflow) */
+  private readonly value: number;
+
+  static readonly ZERO = new BigNum(0, 0, 0);
+  static readonly ONE = new BigNum(1, 0, 1);
+
+  private constructor(mantissa: number, exponent: number, value: number) {
+    this.mantissa = mantissa;
+    this.exponent = exponent;
+    this.value = value;
+  }
+
+  /**
+   * Wrap a finite double, normalizing numerically since this runs on every native result
+   * Native arithmetic reads `value`; the mantissa only meets values past the double range, where its last-bit rounding is lost anyway.
+   */
+  private static fromNumber(value: number): BigNum {
+    if (value === 0) return BigNum.ZERO;
+    let exponent = Math.floor(Math.log10(Math.abs(value)));
+    // 10^-exponent overflows for subnormals, so scale those up first
+    let mantissa = exponent < -NATIVE_EXPONENT_LIMIT
+      ? (value * 1e300) / Math.pow(10, exponent + 300)
+      : value / Math.pow(10, exponent);
+    // log10 can land one off near powers of 10
+    if (Math.abs(mantissa) >= 10) { mantissa /= 10; exponent++; }
+    else if (Math.abs(mantissa) < 1) { mantissa *= 10; exponent--; }
+    return new BigNum(mantissa, exponent, value);
+  }
+
+  /** Build a normalized BigNum from an unnormalized mantissa and exponent */
+  static fromParts(mantissa: number, exponent: number): BigNum {
+    if (!Number.isFinite(mantissa) || !Number.isFinite(exponent)) {
+      throw new RangeError(`BigNum parts must be finite (got ${mantissa}e${exponent})`);
+    }
+    if (mantissa === 0) return BigNum.ZERO;
+    // toExponential gives the exact decimal digits, avoiding drift from dividing by powers of 10
+    const [digits, shift] = mantissa.toExponential().split('e');
+    const e = Math.round(exponent) + Number(shift);
+    if (Math.abs(e) <= NATIVE_EXPONENT_LIMIT) {
+      const native = Number(`${digits}e${e}`);
+      if (Number.isFinite(native) && native !== 0) return BigNum.fromNumber(native);
+    }
+    const m = Number(digits);
+    return new BigNum(m, e, e > 0 ? Math.sign(m) * Infinity : 0);
+  }
+
+  /**
+   * Convert a number, BigNum or serialized string ("1.5e300", "42") into a BigNum
+   * @throws RangeError for NaN, Infinity or unparseable strings
+   */
+  static from(value: BigNumSource): BigNum {
+    if (value instanceof BigNum) return value;
+    if (typeof value === 'number') {
+      if (!Number.isFinite(value)) throw new RangeError(`Cannot convert ${value} to BigNum`);
+      return BigNum.fromNumber(value);
+    }
+    const match = /^\s*(-?\d+(?:\.\d+)?)(?:e([+-]?\d+))?\s*$/i.exec(value);
+    if (!match) throw new RangeError(`Cannot parse BigNum from "${value}"`);
+    return BigNum.fromParts(Number(match[1]), match[2] ? Number(match[2]) : 0);
+  }
+
+  /** Parse without throwing; returns null for invalid input */
+  static tryFrom(value: unknown): BigNum | null {
+    if (!(value instanceof BigNum) && typeof value !== 'number' && typeof value !== 'string') return null;
+    try {
+      return BigNum.from(value);
+    } catch {
+      return null;
+    }
+  }
+
+  static max(a: BigNumSource, b: BigNumSource): BigNum {
+    const x = BigNum.from(a);
+    const y = BigNum.from(b);
+    return x.gte(y) ? x : y;
+  }
+
+  static min(a: BigNumSource, b: BigNumSource): BigNum {
+    const x = BigNum.from(a);
+    const y = BigNum.from(b);
+    return x.lte(y) ? x : y;
+  }
+
+  /** Whether the value fits in a finite double */
+  private isNative(): boolean {
+    return Number.isFinite(this.value) && (this.value !== 0 || this.mantissa === 0);
+  }
+
+  add(other: BigNumSource): BigNum {
+    const o = BigNum.from(other);
+    if (o.mantissa === 0) return this;
+    if (this.mantissa === 0) return o;
+    if (this.isNative() && o.isNative()) {
+      const sum = this.value + o.value;
+      if (Number.isFinite(sum)) return BigNum.fromNumber(sum);
+    }
+    const [big, small] = this.exponent >= o.exponent ? [this, o] : [o, this];
+    const gap = big.exponent - small.exponent;
+    if (gap > MAX_SIGNIFICANT_DIGITS) return big;
+    return BigNum.fromParts(big.mantissa + small.mantissa / Math.pow(10, gap), big.exponent);
+  }
+
+  sub(other: BigNumSource): BigNum {
+    return this.add(BigNum.from(other).neg());
+  }
+
+  mul(other: BigNumSource): BigNum {
+    const o = BigNum.from(other);
+    if (this.mantissa === 0 || o.mantissa === 0) return BigNum.ZERO;
+    if (this.isNative() && o.isNative()) {
+      const product = this.value * o.value;
+      if (Number.isFinite(product) && product !== 0) return BigNum.fromNumber(product);
+    }
+    return BigNum.fromParts(this.mantissa * o.mantissa, this.exponent + o.exponent);
+  }
+
+  div(other: BigNumSource): BigNum {
+    const o = BigNum.from(other);
+    if (o.mantissa === 0) throw new RangeError('BigNum division by zero');
+    if (this.mantissa === 0) return BigNum.ZERO;
+    if (this.isNative() && o.isNative()) {
+      const quotient = this.value / o.value;
+      if (Number.isFinite(quotient) && quotient !== 0) return BigNum.fromNumber(quotient);
+    }
+    return BigNum.fromParts(this.mantissa / o.mantissa, this.exponent - o.exponent);
+  }
+
+  neg(): BigNum {
+    return this.mantissa === 0 ? this : new BigNum(-this.mantissa, this.exponent, -this.value);
+  }
+
+  /** Raise a non-negative value to a real power */
+  pow(power: number): BigNum {
+    if (power === 0) return BigNum.ONE;
+    if (this.mantissa === 0) return BigNum.ZERO;
+    if (this.mantissa < 0) throw new RangeError('BigNum.pow requires a non-negative base');
+    if (this.isNative()) {
+      const result = Math.pow(this.value, power);
+      if (Number.isFinite(result) && result !== 0) return BigNum.fromNumber(result);
+    }
+    const log = this.log10() * power;
+    const exponent = Math.floor(log);
+    return BigNum.fromParts(Math.pow(10, log - exponent), exponent);
+  }
+
+  sqrt(): BigNum {
+    return this.pow(0.5);
+  }
+
+  /** log10 of the value (non-positive values return -Infinity) */
+  log10(): number {
+    if (this.mantissa <= 0) return -Infinity;
+    if (this.isNative()) return Math.log10(this.value);
+    return this.exponent + Math.log10(this.mantissa);
+  }
+
+  /** Round down to an integer (values above 2^53 are already integral at this precision) */
+  floor(): BigNum {
+    if (this.isNative() && Math.abs(this.value) < Number.MAX_SAFE_INTEGER) {
+      return BigNum.fromNumber(Math.floor(this.value));
+    }
+    return this;
+  }
+
+  cmp(other: BigNumSource): -1 | 0 | 1 {
+    const o = BigNum.from(other);
+    if (this.isNative() && o.isNative()) {
+      return this.value === o.value ? 0 : this.value > o.value ? 1 : -1;
+    }
+    const signA = Math.sign(this.mantissa);
+    const signB = Math.sign(o.mantissa);
+    if (signA !== signB) return signA > signB ? 1 : -1;
+    if (signA === 0) return 0;
+    if (this.exponent !== o.exponent) {
+      return (this.exponent > o.exponent) === (signA > 0) ? 1 : -1;
+    }
+    if (this.mantissa === o.mantissa) return 0;
+    return this.mantissa > o.mantissa ? 1 : -1;
+  }
+
+  gt(other: BigNumSource): boolean { return this.cmp(other) > 0; }
+  gte(other: BigNumSource): boolean { return this.cmp(other) >= 0; }
+  lt(other: BigNumSource): boolean { return this.cmp(other) < 0; }
+  lte(other: BigNumSource): boolean { return this.cmp(other) <= 0; }
+  eq(other: BigNumSource): boolean { return this.cmp(other) === 0; }
+  isZero(): boolean { return this.mantissa === 0; }
+  isNegative(): boolean { return this.mantissa < 0; }
+
+  /** Convert to a JS number (±Infinity past ~1.8e308) */
+  toNumber(): number {
+    return this.value;
+  }
+
+  /** Scientific notation matching Number#toExponential, e.g. "1.23e+400" */
+  toExponential(decimals: number): string {
+    if (this.isNative()) return this.value.toExponential(decimals);
+    let mantissa = Number(this.mantissa.toFixed(decimals));
+    let exponent = this.exponent;
+    // Rounding can carry the mantissa up to 10 (9.999 → 10.00)
+    if (Math.abs(mantissa) >= 10) { mantissa /= 10; exponent++; }
+    return `${mantissa.toFixed(decimals)}e${exponent < 0 ? '-' : '+'}${Math.abs(exponent)}`;
+  }
+
+  /** Serialized form used in saves, e.g. "1234.5" or "1.2345e67" */
+  toString(): string {
+    if (this.isNative()) return String(this.value);
+    return `${this.mantissa}e${this.exponent}`;
+  }
+
+  toJSON(): string {
+    return this.toString();
+  }
+}
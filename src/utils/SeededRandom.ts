@@ -0,0 +1,55 @@
+/**
+ * Small deterministic PRNG (mulberry32).
+ * The whole generator state is one 32-bit integer, so it can be saved and restored exactly:
+ * a reloaded game continues the same random sequence instead of re-rolling.
+ */
+export class SeededRandom {
+  private state: number;
+
+  constructor(seed: number) {
+    this.state = seed >>> 0;
+  }
+
+  /** Random seed for a new game */
+  static randomSeed(): number {
+    return Math.floor(Math.random() * 0x100000000);
+  }
+
+  /** Next float in [0, 1) */
+  next(): number {
+    this.state = (this.state + 0x6d2b79f5) >>> 0;
+    let t = this.state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 0x100000000;
+  }
+
+  /** Float in [min, max) */
+  between(min: number, max: number): number {
+    return min + (max - min) * this.next();
+  }
+
+  /** Random element of a non-empty array */
+  pick<T>(items: readonly T[]): T {
+    return items[Math.floor(this.next() * items.length)];
+  }
+
+  /** Random element chosen with probability proportional to its weight */
+  pickWeighted<T>(items: readonly T[], weight: (item: T) => number): T {
+    const total = items.reduce((sum, item) => sum + weight(item), 0);
+    let roll = this.next() * total;
+    for (const item of items) {
+      roll -= weight(item);
+      if (roll < 0) return item;
+    }
+    return items[items.length - 1];
+  }
+
+  getState(): number {
+    return this.state;
+  }
+
+  setState(state: number): void {
+    this.state = state >>> 0;
+  }
+}
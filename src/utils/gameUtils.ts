@@ -3,27 +3,30 @@
  */
 
 import { SCIENTIFIC_NOTATION_THRESHOLD } from '../constants/gameConstants';
+import { BigNum } from './BigNum';
+import type { BigNumSource } from './BigNum';
 
 /**
  * Format a number with different decimals for small vs large values, using the global threshold.
  * Useful when you want 0 decimals for small values but 2 decimals in scientific notation, etc.
  */
 export function formatNumberAdaptive(
-  num: number,
+  num: BigNumSource,
   smallDecimals: number = 0,
   largeDecimals: number = 2,
   threshold: number = SCIENTIFIC_NOTATION_THRESHOLD
 ): string {
-  if (num < threshold) {
-    return num.toFixed(smallDecimals);
+  const value = BigNum.from(num);
+  if (value.lt(threshold)) {
+    return value.toNumber().toFixed(smallDecimals);
   }
-  return num.toExponential(largeDecimals);
+  return value.toExponential(largeDecimals);
 }
 
 /**
  * Format a number with suffix notation (K, M, B, T, etc.)
  *
- * @param num - The number to format
+ * @param num - The number to format (BigNum values past 1e308 are supported)
  * @param decimals - Number of decimal places (default: 2)
  * @returns Formatted string with suffix
  *
@@ -31,17 +34,17 @@ export function formatNumberAdaptive(
  * formatNumberWithSuffix(1234) // "1.23K"
  * formatNumberWithSuffix(1234567) // "1.23M"
  */
-export function formatNumberWithSuffix(num: number, decimals: number = 2): string {
+export function formatNumberWithSuffix(num: BigNumSource, decimals: number = 2): string {
   const suffixes = ['', 'K', 'M', 'B', 'T', 'Qa', 'Qi', 'Sx', 'Sp', 'Oc', 'No', 'Dc'];
+  const value = BigNum.from(num);
 
-  if (num < 1000) {
-    return num.toFixed(decimals);
+  if (value.lt(1000)) {
+    return value.toNumber().toFixed(decimals);
   }
 
-  const tier = Math.floor(Math.log10(Math.abs(num)) / 3);
+  const tier = Math.floor(value.log10() / 3);
   const suffix = suffixes[tier] || `e${tier * 3}`;
-  const scale = Math.pow(10, tier * 3);
-  const scaled = num / scale;
+  const scaled = value.div(BigNum.fromParts(1, tier * 3)).toNumber();
 
   return scaled.toFixed(decimals) + suffix;
 }
@@ -64,7 +67,7 @@ export function setNumberFormatMode(mode: NumberFormatMode): void {
  * - suffix: uses formatNumberWithSuffix
  */
 export function formatNumberUnified(
-  num: number,
+  num: BigNumSource,
   mode: NumberFormatMode = getNumberFormatMode(),
   smallDecimals = 2,
   largeDecimals = 2